@@ -3,8 +3,10 @@ import { FeishuConfig } from './config/feishu';
 import { logger } from './utils/logger';
 import { CrawlerService } from './services/crawlerService';
 import { CronJobManager } from './scheduler/cronJob';
-import { cache } from './utils/cache';
+import { cache, seenCache } from './utils/cache';
 import { CategoryService } from './services/categoryService';
+import { ExtractionSpecs } from './crawler/extraction';
+import { CalendarFeed } from './services/calendarFeed';
 
 // 动态导入Redis服务
 let redisService: any = null;
@@ -55,8 +57,16 @@ class Application {
       // 验证基础配置
       validateConfig();
       
-      // 验证飞书配置
-      FeishuConfig.validateConfig();
+      // 验证飞书配置（回放模式不发送消息）
+      if (!config.replay.dir) {
+        FeishuConfig.validateConfig();
+      }
+      
+      // 验证提取规则（规则错误会导致解析失败，直接中止启动）
+      const extractionValidation = ExtractionSpecs.validate(config.crawler.extractionSpecs);
+      if (!extractionValidation.isValid) {
+        throw new Error(`提取规则配置错误: ${extractionValidation.errors.join('; ')}`);
+      }
       
       // 验证分类规则
       const categoryValidation = CategoryService.validateCategoryRules(config.filter.categoryRules);
@@ -71,7 +81,9 @@ class Application {
       logger.info('系统配置信息:', {
         nodeEnv: config.app.nodeEnv,
         runOnce: config.app.runOnce,
+        replayDir: config.replay.dir,
         crawlerUrl: config.crawler.baseUrl,
+        sources: config.crawler.sources.filter(source => source.enabled).map(source => source.id),
         filterDayRange: config.filter.dayRange,
         scheduleEnabled: config.schedule.enabled,
         cronExpression: config.schedule.cronExpression,
@@ -148,14 +160,15 @@ class Application {
     logger.info('启动服务...');
     
     try {
-      if (config.app.runOnce) {
-        // 单次运行模式
-        logger.info('单次运行模式');
+      if (config.app.runOnce || config.replay.dir) {
+        // 单次运行模式（回放模式总是单次运行）
+        logger.info(config.replay.dir ? `回放模式，页面来源: ${config.replay.dir}` : '单次运行模式');
         await this.runOnce();
       } else {
         // 定时任务模式
         logger.info('定时任务模式');
         await this.startScheduler();
+        CalendarFeed.startServer();
       }
       
     } catch (error: any) {
@@ -165,7 +178,7 @@ class Application {
   }
 
   /**
-   * 单次运行
+   * 单次运行，结束后关闭连接并退出（退出码反映任务是否成功，供脚本和 CI 使用）
    */
   private async runOnce(): Promise<void> {
     logger.info('开始执行单次爬虫任务');
@@ -181,12 +194,13 @@ class Application {
         });
       } else {
         logger.error('❌ 单次任务执行失败:', result.error);
-        process.exit(1);
       }
+
+      await this.shutdown('runOnce', result.success ? 0 : 1);
       
     } catch (error: any) {
       logger.error('单次任务执行异常:', error);
-      process.exit(1);
+      await this.shutdown('runOnce', 1);
     }
   }
 
@@ -262,6 +276,9 @@ class Application {
     try {
       // 停止定时任务
       await CronJobManager.shutdown();
+
+      // 停止日历订阅服务
+      await CalendarFeed.stopServer();
       
       // 关闭Redis连接
       if (redisService) {
@@ -270,6 +287,7 @@ class Application {
       
       // 清理缓存
       cache.destroy();
+      seenCache.destroy();
       
       logger.info('✅ 系统已优雅关闭');
       process.exit(exitCode);
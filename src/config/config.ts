@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
-import { CategoryRule, RedisConfig } from '../types';
+import { CategoryRule, ExtractionSpec, RedisConfig, SourceConfig, Subscriber } from '../types';
+import { FilterQuery } from '../filter/filterQuery';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -11,12 +12,105 @@ export interface CrawlerConfig {
   userAgent: string;
   timeout: number;
   retryTimes: number;
+  maxPages: number;         // 每个数据源最多翻页深度
+  conditionalGet: boolean;  // 是否使用条件请求并跳过未变化的列表页
+  rateLimit: number;        // 每个主机每秒最多请求数
+  rateLimitBurst: number;   // 每个主机允许的突发请求数
+  respectRobots: boolean;   // 是否遵守 robots.txt
+  maxRetryAfter: number;    // 愿意等待的最长 Retry-After（毫秒），超过则放弃本次请求
+  fetchDetail: boolean;     // 是否抓取新公告详情页
+  detailConcurrency: number; // 详情页抓取并发数
+  sources: SourceConfig[];  // 数据源列表
+  extractionSpecs: { [sourceId: string]: Partial<ExtractionSpec> };  // 各数据源提取规则，default 作用于全部数据源
+}
+
+export interface NetworkConfig {
+  proxy?: string;               // 爬虫代理（http://、https://、socks5:// 等）
+  noProxy: string[];            // 不走代理的主机（支持 .example.com 后缀匹配，* 表示全部）
+  feishuProxy?: string;         // 飞书接口代理，未配置时与爬虫相同，direct 表示直连
+  caCertPath?: string;          // 自定义 CA 证书路径
+  rejectUnauthorized: boolean;  // 是否校验 TLS 证书
+  minTlsVersion?: string;       // 最低 TLS 版本（如 TLSv1.2）
+  localAddress?: string;        // 出站源IP
+}
+
+export interface AttachmentConfig {
+  extractText: boolean;     // 是否提取附件文本
+  maxSize: number;          // 单个附件最大下载大小（字节）
+  timeout: number;          // 单个附件下载/解析超时时间（毫秒）
+  maxTextLength: number;    // 单个附件最多保留的文本长度（字符）
+}
+
+export interface TableConfig {
+  previewRows: number;      // 推送卡片中预览的表格行数（0 表示不预览）
+  exportDir?: string;       // 表格导出目录（留空不导出）
+  exportFormat: 'csv' | 'json'; // 导出格式
+}
+
+export interface ArchiveConfig {
+  enabled: boolean;         // 是否归档抓取到的原始HTML
+  dir: string;              // 归档目录
+  retentionDays: number;    // 快照保留天数
+}
+
+export interface CalendarConfig {
+  enabled: boolean;         // 是否生成关键时间日历
+  file: string;             // iCalendar 文件路径（留空不写文件）
+  port: number;             // 日历订阅 HTTP 端口（0 表示不启动）
+  retentionDays: number;    // 事件结束后保留的天数
+}
+
+export interface DriftConfig {
+  enabled: boolean;         // 是否检测列表页解析漂移
+  baselineSize: number;     // 基线保留的最近样本数
+  minSamples: number;       // 开始比较前所需的最少样本数
+  countTolerance: number;   // 公告数量相对基线范围的容差比例
+  ratioTolerance: number;   // 日期解析占比相对基线的容差
+  alertCooldown: number;    // 同一数据源重复告警的间隔（秒）
+}
+
+export interface NearDuplicateConfig {
+  enabled: boolean;         // 是否检测近似重复（标题和正文的 SimHash 指纹）
+  maxDistance: number;      // 指纹相差不超过该位数（0-64）视为近似重复
+  action: 'suppress' | 'tag'; // 近似重复的公告：不推送，或推送并标注"疑似重复"
+  windowDays: number;       // 与最近多少天内推送过的公告比较
+}
+
+export interface RelationConfig {
+  enabled: boolean;         // 是否关联更正、补充、延期等公告与原公告
+  windowDays: number;       // 在最近多少天内推送过的公告中查找原公告
+  minSimilarity: number;    // 按标题关联时的最低相似度（0-1）
+  replyInThread: boolean;   // Bot API 推送时是否同时回复到原公告消息的话题中
+}
+
+export interface TraceConfig {
+  enabled: boolean;         // 是否记录每条公告在各过滤阶段的判定
+  runs: number;             // 保留最近多少次运行的记录
+}
+
+export interface ChangeDetectionConfig {
+  enabled: boolean;         // 是否定时复查已推送公告的内容变化
+  cronExpression: string;   // 复查的执行规则
+  windowDays: number;       // 复查最近多少天内推送的公告
+  maxChanges: number;       // 更新消息中最多展示的差异处数
+}
+
+export interface ReplayConfig {
+  dir?: string;             // 回放目录，设置后从录制的页面读取而不访问网络
+  outputDir?: string;       // 回放时渲染的飞书消息输出目录
+  referenceDate?: string;   // 回放时时间过滤使用的“当前日期”，覆盖 replay.json 中的配置
 }
 
 export interface FilterConfig {
   dayRange: number;
+  inferredDatePolicy: 'keep' | 'drop';  // 发布日期为推断值（页面上无法解析）时：保留或过滤
   keywords: string[];
   excludeKeywords: string[];
+  query?: string;           // 包含表达式（AND/OR/NOT、字段限定、正则），与关键词同时生效
+  excludeQuery?: string;    // 排除表达式，命中的公告被过滤
+  housingTypes: string[];   // 只保留这些住房类型的公告（结构化字段）
+  stages: string[];         // 只保留这些配售阶段的公告
+  districts: string[];      // 只保留这些行政区的公告
   cacheSize: number;
   categoryRules: CategoryRule[];  // 分类规则
 }
@@ -45,8 +139,20 @@ export interface AppConfig {
 export interface Config {
   app: AppConfig;
   crawler: CrawlerConfig;
+  network: NetworkConfig;
+  attachment: AttachmentConfig;
+  table: TableConfig;
+  archive: ArchiveConfig;
+  calendar: CalendarConfig;
+  replay: ReplayConfig;
+  drift: DriftConfig;
+  nearDuplicate: NearDuplicateConfig;
+  relation: RelationConfig;
+  changeDetection: ChangeDetectionConfig;
+  trace: TraceConfig;
   filter: FilterConfig;
   feishu: FeishuConfig;
+  subscribers: Subscriber[];  // 订阅者（为空时推送到上面配置的群）
   schedule: ScheduleConfig;
   redis: RedisConfig;  // Redis配置
 }
@@ -121,6 +227,103 @@ function parseCategoryRules(rulesString?: string): CategoryRule[] {
   return loadCategoryRules();
 }
 
+// 从JSON文件加载数据源配置
+function loadSources(baseUrl: string, enabledIds: string[]): SourceConfig[] {
+  let sources: SourceConfig[] = [];
+
+  try {
+    const sourcesPath = path.join(__dirname, 'sources.json');
+
+    if (fs.existsSync(sourcesPath)) {
+      const parsed = JSON.parse(fs.readFileSync(sourcesPath, 'utf8'));
+
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        sources = parsed;
+        console.log(`✅ 从文件加载数据源: ${sources.length} 个`);
+      } else {
+        console.warn('数据源配置文件格式不正确，使用默认数据源');
+      }
+    } else {
+      console.warn('数据源配置文件不存在，使用默认数据源');
+    }
+  } catch (error: any) {
+    console.warn('加载数据源配置文件失败，使用默认数据源:', error.message);
+  }
+
+  if (sources.length === 0) {
+    // 默认数据源：沿用 CRAWLER_BASE_URL
+    sources = [
+      {
+        id: 'default',
+        name: '深圳住建局通知公告',
+        enabled: true,
+        listUrl: baseUrl,
+        pagination: {
+          urlPattern: baseUrl.replace('/index.html', '/index_{page}.html'),
+        },
+      },
+    ];
+  }
+
+  // 环境变量指定启用的数据源时，覆盖文件中的 enabled 配置
+  if (enabledIds.length > 0) {
+    sources = sources.map(source => ({
+      ...source,
+      enabled: enabledIds.includes(source.id),
+    }));
+  }
+
+  return sources;
+}
+
+// 从JSON文件加载提取规则
+function loadExtractionSpecs(): { [sourceId: string]: Partial<ExtractionSpec> } {
+  try {
+    const specsPath = path.join(__dirname, 'extractionSpecs.json');
+
+    if (fs.existsSync(specsPath)) {
+      const specs = JSON.parse(fs.readFileSync(specsPath, 'utf8'));
+
+      if (specs && typeof specs === 'object' && !Array.isArray(specs)) {
+        console.log(`✅ 从文件加载提取规则: ${Object.keys(specs).length} 个`);
+        return specs;
+      } else {
+        console.warn('提取规则文件格式不正确，使用内置规则');
+      }
+    }
+  } catch (error: any) {
+    console.warn('加载提取规则文件失败，使用内置规则:', error.message);
+  }
+
+  return {};
+}
+
+// 从JSON文件加载订阅者（文件不存在时为空，推送到全局配置的群）
+function loadSubscribers(): Subscriber[] {
+  const subscribersPath = process.env.SUBSCRIBERS_FILE || path.join(__dirname, 'subscribers.json');
+
+  try {
+    if (fs.existsSync(subscribersPath)) {
+      const parsed = JSON.parse(fs.readFileSync(subscribersPath, 'utf8'));
+
+      if (Array.isArray(parsed)) {
+        console.log(`✅ 从文件加载订阅者: ${parsed.length} 个`);
+        return parsed.map(subscriber => ({ ...subscriber, enabled: subscriber.enabled !== false }));
+      } else {
+        console.warn('订阅者配置文件格式不正确，推送到全局配置的群');
+      }
+    } else if (process.env.SUBSCRIBERS_FILE) {
+      console.warn(`订阅者配置文件不存在: ${subscribersPath}`);
+    }
+  } catch (error: any) {
+    console.warn('加载订阅者配置文件失败，推送到全局配置的群:', error.message);
+  }
+
+  return [];
+}
+
+const crawlerBaseUrl = process.env.CRAWLER_BASE_URL || 'https://zjj.sz.gov.cn/ztfw/zfbz/tzgg2017/index.html';
+
 // 创建配置对象
 export const config: Config = {
   app: {
@@ -129,15 +332,98 @@ export const config: Config = {
     runOnce: process.env.RUN_ONCE === 'true',
   },
   crawler: {
-    baseUrl: process.env.CRAWLER_BASE_URL || 'https://zjj.sz.gov.cn/ztfw/zfbz/tzgg2017/index.html',
+    baseUrl: crawlerBaseUrl,
     userAgent: process.env.CRAWLER_USER_AGENT || 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
     timeout: parseInt(process.env.CRAWLER_TIMEOUT || '10000'),
     retryTimes: parseInt(process.env.CRAWLER_RETRY_TIMES || '3'),
+    maxPages: parseInt(process.env.CRAWLER_MAX_PAGES || '5'),
+    conditionalGet: process.env.CRAWLER_CONDITIONAL_GET !== 'false',
+    rateLimit: parseFloat(process.env.CRAWLER_RATE_LIMIT || '2'),
+    rateLimitBurst: parseInt(process.env.CRAWLER_RATE_LIMIT_BURST || '2'),
+    respectRobots: process.env.CRAWLER_RESPECT_ROBOTS === 'true',
+    maxRetryAfter: parseInt(process.env.CRAWLER_MAX_RETRY_AFTER || '120000'),
+    fetchDetail: process.env.CRAWLER_FETCH_DETAIL !== 'false',
+    detailConcurrency: parseInt(process.env.CRAWLER_DETAIL_CONCURRENCY || '3'),
+    sources: loadSources(crawlerBaseUrl, parseStringArray(process.env.CRAWLER_SOURCES)),
+    extractionSpecs: loadExtractionSpecs(),
+  },
+  network: {
+    proxy: process.env.CRAWLER_PROXY || process.env.HTTPS_PROXY || process.env.https_proxy
+      || process.env.HTTP_PROXY || process.env.http_proxy || undefined,
+    noProxy: parseStringArray(process.env.CRAWLER_NO_PROXY || process.env.NO_PROXY || process.env.no_proxy),
+    feishuProxy: process.env.FEISHU_PROXY || undefined,
+    caCertPath: process.env.NETWORK_CA_CERT || undefined,
+    rejectUnauthorized: process.env.NETWORK_TLS_REJECT_UNAUTHORIZED !== 'false',
+    minTlsVersion: process.env.NETWORK_TLS_MIN_VERSION || undefined,
+    localAddress: process.env.NETWORK_LOCAL_ADDRESS || undefined,
+  },
+  attachment: {
+    extractText: process.env.ATTACHMENT_EXTRACT_TEXT !== 'false',
+    maxSize: parseInt(process.env.ATTACHMENT_MAX_SIZE || '10485760'), // 默认10MB
+    timeout: parseInt(process.env.ATTACHMENT_TIMEOUT || '30000'),
+    maxTextLength: parseInt(process.env.ATTACHMENT_MAX_TEXT_LENGTH || '50000'),
+  },
+  table: {
+    previewRows: parseInt(process.env.TABLE_PREVIEW_ROWS || '3'),
+    exportDir: process.env.TABLE_EXPORT_DIR || undefined,
+    exportFormat: (process.env.TABLE_EXPORT_FORMAT || 'csv') as 'csv' | 'json',
+  },
+  archive: {
+    enabled: process.env.ARCHIVE_ENABLED === 'true',
+    dir: process.env.ARCHIVE_DIR || 'archive',
+    retentionDays: parseInt(process.env.ARCHIVE_RETENTION_DAYS || '30'),
+  },
+  calendar: {
+    enabled: process.env.CALENDAR_ENABLED === 'true',
+    file: process.env.CALENDAR_FILE ?? 'calendar/notices.ics',
+    port: parseInt(process.env.CALENDAR_PORT || '0'),
+    retentionDays: parseInt(process.env.CALENDAR_RETENTION_DAYS || '90'),
+  },
+  drift: {
+    enabled: process.env.DRIFT_DETECTION_ENABLED !== 'false',
+    baselineSize: parseInt(process.env.DRIFT_BASELINE_SIZE || '20'),
+    minSamples: parseInt(process.env.DRIFT_MIN_SAMPLES || '3'),
+    countTolerance: parseFloat(process.env.DRIFT_COUNT_TOLERANCE || '0.5'),
+    ratioTolerance: parseFloat(process.env.DRIFT_RATIO_TOLERANCE || '0.2'),
+    alertCooldown: parseInt(process.env.DRIFT_ALERT_COOLDOWN || '21600'), // 默认6小时
+  },
+  nearDuplicate: {
+    enabled: process.env.NEAR_DUPLICATE_ENABLED !== 'false',
+    maxDistance: parseInt(process.env.NEAR_DUPLICATE_MAX_DISTANCE || '3'),
+    action: (process.env.NEAR_DUPLICATE_ACTION || 'tag') as 'suppress' | 'tag',
+    windowDays: parseInt(process.env.NEAR_DUPLICATE_WINDOW_DAYS || '30'),
+  },
+  relation: {
+    enabled: process.env.RELATION_DETECTION_ENABLED !== 'false',
+    windowDays: parseInt(process.env.RELATION_WINDOW_DAYS || '90'),
+    minSimilarity: parseFloat(process.env.RELATION_MIN_SIMILARITY || '0.6'),
+    replyInThread: process.env.RELATION_REPLY_IN_THREAD !== 'false',
+  },
+  changeDetection: {
+    enabled: process.env.CHANGE_DETECTION_ENABLED !== 'false',
+    cronExpression: process.env.CHANGE_DETECTION_CRON || '30 */6 * * *',
+    windowDays: parseInt(process.env.CHANGE_DETECTION_WINDOW_DAYS || '14'),
+    maxChanges: parseInt(process.env.CHANGE_DETECTION_MAX_CHANGES || '5'),
+  },
+  trace: {
+    enabled: process.env.TRACE_ENABLED !== 'false',
+    runs: parseInt(process.env.TRACE_RUNS || '20'),
+  },
+  replay: {
+    dir: process.env.REPLAY_DIR || undefined,
+    outputDir: process.env.REPLAY_OUTPUT_DIR || undefined,
+    referenceDate: process.env.REPLAY_REFERENCE_DATE || undefined,
   },
   filter: {
     dayRange: parseInt(process.env.FILTER_DAY_RANGE || '7'),
+    inferredDatePolicy: (process.env.FILTER_INFERRED_DATE_POLICY || 'keep') as 'keep' | 'drop',
     keywords: parseStringArray(process.env.FILTER_KEYWORDS),
     excludeKeywords: parseStringArray(process.env.FILTER_EXCLUDE_KEYWORDS),
+    query: process.env.FILTER_QUERY?.trim() || undefined,
+    excludeQuery: process.env.FILTER_EXCLUDE_QUERY?.trim() || undefined,
+    housingTypes: parseStringArray(process.env.FILTER_HOUSING_TYPES),
+    stages: parseStringArray(process.env.FILTER_STAGES),
+    districts: parseStringArray(process.env.FILTER_DISTRICTS),
     cacheSize: parseInt(process.env.FILTER_CACHE_SIZE || '1000'),
     categoryRules: parseCategoryRules(process.env.FILTER_CATEGORY_RULES),
   },
@@ -148,12 +434,14 @@ export const config: Config = {
     appSecret: process.env.FEISHU_APP_SECRET,
     chatId: process.env.FEISHU_CHAT_ID,
   },
+  subscribers: loadSubscribers(),
   schedule: {
     cronExpression: process.env.SCHEDULE_CRON || '0 */1 * * *',
     enabled: process.env.SCHEDULE_ENABLED !== 'false',
   },
   redis: {
-    enabled: process.env.REDIS_ENABLED !== 'false', // 默认启用，设置为'false'时禁用
+    // 默认启用，设置为'false'时禁用；回放模式下不读写 Redis，避免影响线上去重记录
+    enabled: process.env.REDIS_ENABLED !== 'false' && !process.env.REPLAY_DIR,
     host: process.env.REDIS_HOST || 'localhost',
     port: parseInt(process.env.REDIS_PORT || '6379'),
     password: process.env.REDIS_PASSWORD,
@@ -163,23 +451,216 @@ export const config: Config = {
   },
 };
 
+// 验证订阅者配置
+const validateSubscribers = (): void => {
+  const ids = new Set<string>();
+  const categories = new Set([
+    ...config.filter.categoryRules.map(rule => rule.name),
+    ...config.crawler.sources.map(source => source.defaultCategory).filter(name => !!name),
+    '其他',
+  ]);
+
+  for (const subscriber of config.subscribers) {
+    const label = subscriber.name || subscriber.id || '未命名';
+    if (!subscriber.id || !subscriber.name || !subscriber.target) {
+      throw new Error(`订阅者配置不完整: ${label}`);
+    }
+    if (ids.has(subscriber.id)) {
+      throw new Error(`订阅者ID重复: ${subscriber.id}`);
+    }
+    if (subscriber.id.includes(':')) {
+      throw new Error(`订阅者ID不能包含冒号: ${subscriber.id}`);
+    }
+    ids.add(subscriber.id);
+
+    const target = subscriber.target;
+    if (target.type === 'webhook') {
+      try {
+        new URL(target.url);
+      } catch (error) {
+        throw new Error(`订阅者 ${subscriber.id} 的 Webhook URL 格式无效`);
+      }
+    } else if (target.type === 'chat_id' || target.type === 'open_id') {
+      if (!target.id) {
+        throw new Error(`订阅者 ${subscriber.id} 缺少 ${target.type}`);
+      }
+      if (subscriber.enabled && (!config.feishu.appId || !config.feishu.appSecret) && !config.replay.dir) {
+        throw new Error(`订阅者 ${subscriber.id} 通过 Bot API 推送，必须配置 FEISHU_APP_ID 和 FEISHU_APP_SECRET`);
+      }
+    } else {
+      throw new Error(`订阅者 ${subscriber.id} 的推送目标类型无效: ${(target as any).type}（可选 chat_id、open_id、webhook）`);
+    }
+
+    if (subscriber.pushMode && !['single', 'categorized', 'by-category'].includes(subscriber.pushMode)) {
+      throw new Error(`订阅者 ${subscriber.id} 的推送模式无效: ${subscriber.pushMode}（可选 single、categorized、by-category）`);
+    }
+
+    const unknown = (subscriber.categories || []).filter(category => !categories.has(category));
+    if (unknown.length > 0) {
+      throw new Error(`订阅者 ${subscriber.id} 的分类不存在: ${unknown.join('、')}`);
+    }
+
+    if (subscriber.query) {
+      try {
+        FilterQuery.parse(subscriber.query);
+      } catch (error: any) {
+        throw new Error(`订阅者 ${subscriber.id} 的过滤表达式语法错误: ${error.message}`);
+      }
+    }
+  }
+};
+
 // 验证配置
 export const validateConfig = (): void => {
   // 验证飞书配置
   const hasWebhook = config.feishu.webhookUrl;
   const hasBotApi = config.feishu.appId && config.feishu.appSecret && config.feishu.chatId;
+  const hasSubscribers = config.subscribers.some(subscriber => subscriber.enabled);
   
-  if (!hasWebhook && !hasBotApi) {
-    throw new Error('飞书配置错误：必须配置 Webhook 或 Bot API 其中一种方式');
+  // 回放模式只渲染消息，不需要飞书配置
+  if (!hasWebhook && !hasBotApi && !hasSubscribers && !config.replay.dir) {
+    throw new Error('飞书配置错误：必须配置 Webhook 或 Bot API 其中一种方式，或配置订阅者');
   }
+
+  validateSubscribers();
   
   if (config.crawler.timeout <= 0) {
     throw new Error('爬虫超时时间必须大于 0');
   }
   
+  if (config.crawler.maxPages <= 0) {
+    throw new Error('最大翻页深度必须大于 0');
+  }
+
+  if (config.crawler.rateLimit <= 0 || config.crawler.rateLimitBurst <= 0) {
+    throw new Error('主机限速配置必须大于 0');
+  }
+
+  if (config.crawler.detailConcurrency <= 0) {
+    throw new Error('详情页抓取并发数必须大于 0');
+  }
+
+  if (!config.crawler.sources.some(source => source.enabled)) {
+    throw new Error('至少需要启用一个数据源');
+  }
+
+  const sourceIds = new Set<string>();
+  for (const source of config.crawler.sources) {
+    if (!source.id || !source.listUrl) {
+      throw new Error(`数据源配置不完整: ${source.name || source.id || '未命名'}`);
+    }
+    if (sourceIds.has(source.id)) {
+      throw new Error(`数据源ID重复: ${source.id}`);
+    }
+    if (source.type && !['html', 'rss', 'json'].includes(source.type)) {
+      throw new Error(`数据源 ${source.id} 的类型无效: ${source.type}`);
+    }
+    if (source.id.includes(':')) {
+      throw new Error(`数据源ID不能包含冒号（用作公告ID分隔符）: ${source.id}`);
+    }
+    if (source.fingerprint && source.fingerprint.some(field => !['title', 'publishDate'].includes(field))) {
+      throw new Error(`数据源 ${source.id} 的 fingerprint 只能包含 title、publishDate`);
+    }
+    sourceIds.add(source.id);
+  }
+  
+  // 验证代理配置
+  const proxies = [
+    config.network.proxy,
+    config.network.feishuProxy,
+    ...config.crawler.sources.map(source => source.proxy),
+  ];
+  for (const proxy of proxies) {
+    if (!proxy || proxy === 'direct') {
+      continue;
+    }
+    try {
+      const protocol = new URL(proxy).protocol;
+      if (!['http:', 'https:', 'socks:', 'socks4:', 'socks4a:', 'socks5:', 'socks5h:'].includes(protocol)) {
+        throw new Error(protocol);
+      }
+    } catch (error) {
+      throw new Error(`代理地址格式无效: ${proxy.replace(/\/\/[^@/]+@/, '//***@')}`);
+    }
+  }
+
+  if (config.network.caCertPath && !fs.existsSync(config.network.caCertPath)) {
+    throw new Error(`CA 证书文件不存在: ${config.network.caCertPath}`);
+  }
+
+  if (config.attachment.maxSize <= 0 || config.attachment.timeout <= 0) {
+    throw new Error('附件大小限制和超时时间必须大于 0');
+  }
+
+  if (config.table.previewRows < 0 || !['csv', 'json'].includes(config.table.exportFormat)) {
+    throw new Error('表格预览行数不能为负数，导出格式只能为 csv 或 json');
+  }
+
+  if (config.archive.enabled && config.archive.retentionDays <= 0) {
+    throw new Error('快照保留天数必须大于 0');
+  }
+
+  if (config.calendar.enabled && (config.calendar.retentionDays <= 0 || config.calendar.port < 0 || config.calendar.port > 65535)) {
+    throw new Error('日历事件保留天数必须大于 0，端口必须在 0-65535 之间');
+  }
+
+  if (config.drift.baselineSize <= 0 || config.drift.minSamples <= 0 || config.drift.minSamples > config.drift.baselineSize) {
+    throw new Error('解析漂移基线样本数必须大于 0，且最少样本数不能超过基线样本数');
+  }
+
+  if (config.drift.countTolerance < 0 || config.drift.ratioTolerance < 0 || config.drift.ratioTolerance > 1) {
+    throw new Error('解析漂移容差必须为非负数，日期占比容差不能超过 1');
+  }
+
+  if (config.replay.dir && !fs.existsSync(config.replay.dir)) {
+    throw new Error(`回放目录不存在: ${config.replay.dir}`);
+  }
+
+  if (config.replay.referenceDate && isNaN(Date.parse(config.replay.referenceDate))) {
+    throw new Error(`回放参考日期格式无效: ${config.replay.referenceDate}`);
+  }
+  
+  const { maxDistance, action, windowDays } = config.nearDuplicate;
+  if (isNaN(maxDistance) || maxDistance < 0 || maxDistance > 64 || windowDays <= 0) {
+    throw new Error('近似重复的指纹距离必须在 0-64 之间，比较天数必须大于 0');
+  }
+
+  if (!['suppress', 'tag'].includes(action)) {
+    throw new Error(`近似重复处理方式无效: ${action}（可选 suppress、tag）`);
+  }
+
+  const { windowDays: relationWindowDays, minSimilarity } = config.relation;
+  if (relationWindowDays <= 0 || isNaN(minSimilarity) || minSimilarity <= 0 || minSimilarity > 1) {
+    throw new Error('关联原公告的查找天数必须大于 0，标题相似度必须在 0-1 之间');
+  }
+
+  if (config.changeDetection.windowDays <= 0 || config.changeDetection.maxChanges <= 0) {
+    throw new Error('内容变化复查天数和展示的差异处数必须大于 0');
+  }
+
+  if (isNaN(config.trace.runs) || config.trace.runs <= 0) {
+    throw new Error('过滤记录保留的运行次数必须大于 0');
+  }
+
   if (config.filter.dayRange <= 0) {
     throw new Error('过滤天数范围必须大于 0');
   }
+
+  if (!['keep', 'drop'].includes(config.filter.inferredDatePolicy)) {
+    throw new Error(`推断日期处理策略无效: ${config.filter.inferredDatePolicy}（可选 keep、drop）`);
+  }
+  
+  // 过滤表达式在启动时解析，语法错误时指出位置
+  for (const [name, expression] of [['FILTER_QUERY', config.filter.query], ['FILTER_EXCLUDE_QUERY', config.filter.excludeQuery]]) {
+    if (!expression) {
+      continue;
+    }
+    try {
+      FilterQuery.parse(expression);
+    } catch (error: any) {
+      throw new Error(`过滤表达式 ${name} 语法错误: ${error.message}`);
+    }
+  }
   
   if (config.filter.cacheSize <= 0) {
     throw new Error('缓存大小必须大于 0');
@@ -1,6 +1,8 @@
-import { Client } from '@larksuiteoapi/node-sdk';
+import { Client, defaultHttpInstance } from '@larksuiteoapi/node-sdk';
 import { config } from './config';
+import { SubscriberTarget } from '../types';
 import { logger } from '../utils/logger';
+import { NetworkAgents } from '../utils/network';
 
 /**
  * 飞书客户端配置
@@ -12,7 +14,10 @@ export class FeishuConfig {
    * 获取飞书客户端实例
    */
   static getClient(): Client | null {
-    if (!this.client && this.shouldUseBotApi()) {
+    if (!this.client && this.hasAppCredentials()) {
+      // 飞书 SDK 使用独立的 axios 实例，按飞书代理配置设置出站连接
+      Object.assign(defaultHttpInstance.defaults, NetworkAgents.forFeishu());
+
       this.client = new Client({
         appId: config.feishu.appId!,
         appSecret: config.feishu.appSecret!,
@@ -25,6 +30,26 @@ export class FeishuConfig {
     return this.client;
   }
 
+  /**
+   * 是否配置了应用凭证（订阅者推送到群聊或用户时只需要凭证）
+   */
+  static hasAppCredentials(): boolean {
+    return !!(config.feishu.appId && config.feishu.appSecret);
+  }
+
+  /**
+   * 全局推送目标：优先 Bot API 的群，其次 Webhook
+   */
+  static getDefaultTarget(): SubscriberTarget | null {
+    if (this.shouldUseBotApi()) {
+      return { type: 'chat_id', id: config.feishu.chatId! };
+    }
+    if (this.shouldUseWebhook()) {
+      return { type: 'webhook', url: config.feishu.webhookUrl!, secret: config.feishu.webhookSecret };
+    }
+    return null;
+  }
+
   /**
    * 检查是否应该使用 Bot API
    */
@@ -64,7 +89,13 @@ export class FeishuConfig {
     const hasWebhook = this.shouldUseWebhook();
 
     if (!hasBotApi && !hasWebhook) {
-      throw new Error('飞书配置错误：必须配置 Bot API 或 Webhook 其中一种方式');
+      if (!config.subscribers.some(subscriber => subscriber.enabled)) {
+        throw new Error('飞书配置错误：必须配置 Bot API 或 Webhook 其中一种方式');
+      }
+      // 公告推送给订阅者，系统告警和状态消息推送到全局配置的群
+      logger.warn('未配置全局推送方式，系统告警和状态消息将不会推送');
+      logger.info('飞书配置验证通过');
+      return;
     }
 
     if (hasBotApi && hasWebhook) {
@@ -0,0 +1,120 @@
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { CrawlerError } from '../types';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { AttachmentKind, AttachmentWorkerInput, AttachmentWorkerResult } from './attachmentWorker';
+
+/**
+ * 附件文本提取器
+ * 在本地提取 PDF（文字层）、Excel 和 docx 文件的文本，不依赖云端 OCR；
+ * 解析在独立线程中进行，超时后终止线程，单个超大附件不会卡住整次运行
+ */
+export class AttachmentExtractor {
+  private static readonly PDF_EXTENSIONS = ['pdf'];
+  private static readonly SPREADSHEET_EXTENSIONS = ['xls', 'xlsx', 'et', 'csv'];
+  private static readonly WORD_EXTENSIONS = ['docx'];
+
+  // 表格最多读取的行数，避免超大表格占满内存
+  private static readonly MAX_SHEET_ROWS = 5000;
+
+  /**
+   * 是否支持提取该类型附件
+   */
+  static isSupported(extension: string): boolean {
+    return [
+      ...this.PDF_EXTENSIONS,
+      ...this.SPREADSHEET_EXTENSIONS,
+      ...this.WORD_EXTENSIONS,
+    ].includes(extension.toLowerCase());
+  }
+
+  /**
+   * 提取附件文本（受超时和长度限制）
+   */
+  static async extractText(buffer: Buffer, extension: string): Promise<string> {
+    const ext = extension.toLowerCase();
+
+    if (buffer.length > config.attachment.maxSize) {
+      throw new CrawlerError(
+        `附件大小超出限制: ${buffer.length} > ${config.attachment.maxSize}`,
+        'ATTACHMENT_TOO_LARGE',
+        { size: buffer.length, extension: ext }
+      );
+    }
+
+    const text = await this.runWorker(buffer, this.getKind(ext), ext);
+    const cleaned = text.replace(/[ \u00a0]+/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+
+    if (cleaned.length > config.attachment.maxTextLength) {
+      logger.debug(`附件文本过长，截断至 ${config.attachment.maxTextLength} 字符`);
+      return cleaned.slice(0, config.attachment.maxTextLength);
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * 附件类型
+   */
+  private static getKind(extension: string): AttachmentKind {
+    if (this.PDF_EXTENSIONS.includes(extension)) {
+      return 'pdf';
+    }
+    if (this.SPREADSHEET_EXTENSIONS.includes(extension)) {
+      return 'spreadsheet';
+    }
+    if (this.WORD_EXTENSIONS.includes(extension)) {
+      return 'word';
+    }
+
+    throw new CrawlerError(`不支持的附件类型: ${extension}`, 'UNSUPPORTED_ATTACHMENT', { extension });
+  }
+
+  /**
+   * 在独立线程中解析附件，超时后终止线程
+   */
+  private static runWorker(buffer: Buffer, kind: AttachmentKind, extension: string): Promise<string> {
+    const ms = config.attachment.timeout;
+    const worker = this.createWorker({ buffer, kind, maxSheetRows: this.MAX_SHEET_ROWS });
+
+    return new Promise<string>((resolve, reject) => {
+      let settled = false;
+      const finish = (error: Error | null, text = '') => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        void worker.terminate();
+        error ? reject(error) : resolve(text);
+      };
+
+      const timer = setTimeout(() => {
+        finish(new CrawlerError(`附件解析超时 (${ms}ms)`, 'EXTRACT_TIMEOUT', { extension }));
+      }, ms);
+
+      worker.once('message', (result: AttachmentWorkerResult) => {
+        finish(result.error !== undefined ? new Error(result.error) : null, result.text);
+      });
+      worker.once('error', error => finish(error));
+      worker.once('exit', code => {
+        finish(new CrawlerError(`附件解析线程异常退出 (code ${code})`, 'EXTRACT_FAILED', { extension }));
+      });
+    });
+  }
+
+  /**
+   * 创建解析线程；以 ts-node 运行时（开发、回放）先注册 ts-node 再加载 .ts 源文件
+   */
+  private static createWorker(input: AttachmentWorkerInput): Worker {
+    const extension = path.extname(__filename);
+    const file = path.join(__dirname, `attachmentWorker${extension}`);
+
+    if (extension === '.ts') {
+      const script = `require('ts-node').register({ transpileOnly: true }); require(${JSON.stringify(file)});`;
+      return new Worker(script, { eval: true, workerData: input });
+    }
+    return new Worker(file, { workerData: input });
+  }
+}
@@ -0,0 +1,64 @@
+import { parentPort, workerData } from 'worker_threads';
+import pdf from 'pdf-parse';
+import * as XLSX from 'xlsx';
+import mammoth from 'mammoth';
+
+// 附件类型
+export type AttachmentKind = 'pdf' | 'spreadsheet' | 'word';
+
+// 解析线程的输入
+export interface AttachmentWorkerInput {
+  buffer: Uint8Array;
+  kind: AttachmentKind;
+  maxSheetRows: number;  // 表格最多读取的行数
+}
+
+// 解析线程的输出
+export interface AttachmentWorkerResult {
+  text?: string;
+  error?: string;
+}
+
+/**
+ * 附件解析线程
+ * PDF、表格的解析是同步的 CPU 密集操作，放在独立线程中执行，超时后由主线程终止
+ */
+async function extract({ buffer, kind, maxSheetRows }: AttachmentWorkerInput): Promise<string> {
+  const data = Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+  switch (kind) {
+    case 'pdf':
+      return (await pdf(data)).text;
+    case 'spreadsheet':
+      return extractSpreadsheet(data, maxSheetRows);
+    case 'word':
+      return (await mammoth.extractRawText({ buffer: data })).value;
+  }
+}
+
+/**
+ * 提取表格文本，每个工作表输出为制表符分隔的行
+ */
+function extractSpreadsheet(buffer: Buffer, maxSheetRows: number): string {
+  const workbook = XLSX.read(buffer, {
+    type: 'buffer',
+    sheetRows: maxSheetRows,
+    cellHTML: false,
+    cellFormula: false,
+  });
+
+  return workbook.SheetNames
+    .map(sheetName => {
+      const csv = XLSX.utils.sheet_to_csv(workbook.Sheets[sheetName], { FS: '\t', blankrows: false });
+      return `[${sheetName}]\n${csv}`;
+    })
+    .join('\n\n');
+}
+
+if (parentPort) {
+  const port = parentPort;
+  extract(workerData as AttachmentWorkerInput).then(
+    text => port.postMessage({ text } as AttachmentWorkerResult),
+    error => port.postMessage({ error: error?.message || String(error) } as AttachmentWorkerResult)
+  );
+}
@@ -0,0 +1,189 @@
+import * as cheerio from 'cheerio';
+import { ExtractionSpec, FieldRule, FieldSpec, SourceConfig } from '../types';
+import { config } from '../config/config';
+
+// 内置提取规则，对应深圳住建局网站常见的列表结构
+const BUILTIN_SPEC: ExtractionSpec = {
+  listItem: [
+    'ul.ftdt-list li, ul.articleList li, .articleList li, table tr, .list-item, .news-list li',
+    '.content a[href*="html"], .main-content a[href*="html"], a[title]',
+  ],
+  title: [
+    { selector: 'a[href]', attr: 'title' },
+    { selector: 'a[href]' },
+    { attr: 'title' },
+    {},
+  ],
+  link: [
+    { selector: 'a[href]', attr: 'href' },
+    { attr: 'href' },
+  ],
+  date: [
+    // 深圳住建局的日期通常在列表项最后一个 span 中，格式为 "25-05-29"
+    { selector: 'span', last: true },
+    '.date',
+    '.time',
+    '.publish-date',
+    '.article-date',
+    '[class*="date"]',
+    '[class*="time"]',
+    { regex: '(\\d{2,4}[-/年]\\d{1,2}[-/月]\\d{1,2}日?)' },
+  ],
+  content: [
+    '.article-content',
+    '.content',
+    '.main-content',
+    '.detail-content',
+    '#content',
+    '.TRS_Editor',
+    '.article-body',
+  ],
+};
+
+/**
+ * 声明式提取规则
+ * 规则来自 extractionSpecs.json：内置规则 < default < 数据源ID，按字段覆盖
+ */
+export class ExtractionSpecs {
+  private static readonly FIELDS: (keyof ExtractionSpec)[] = ['listItem', 'title', 'link', 'date', 'content'];
+  private static regexCache: Map<string, RegExp> = new Map();
+
+  /**
+   * 获取数据源的完整提取规则
+   */
+  static forSource(source?: SourceConfig): ExtractionSpec {
+    const specs = config.crawler.extractionSpecs;
+    return {
+      ...BUILTIN_SPEC,
+      ...specs.default,
+      ...(source ? specs[source.id] : undefined),
+    };
+  }
+
+  /**
+   * 按顺序尝试选择器，返回第一个有结果的匹配
+   */
+  static selectFirst($: cheerio.CheerioAPI, selectors: string | string[]): cheerio.Cheerio<any> {
+    for (const selector of this.toArray(selectors)) {
+      const $matched = $(selector);
+      if ($matched.length > 0) {
+        return $matched;
+      }
+    }
+    return $([]);
+  }
+
+  /**
+   * 按顺序尝试字段规则，返回第一个能被 parse 接受的值
+   */
+  static extract<T>(
+    $scope: cheerio.Cheerio<any>,
+    spec: FieldSpec,
+    parse: (value: string) => T | null
+  ): T | null {
+    return this.extractMatch($scope, spec, parse)?.value ?? null;
+  }
+
+  /**
+   * 同 extract，同时返回命中的规则序号（0 为首选规则）
+   */
+  static extractMatch<T>(
+    $scope: cheerio.Cheerio<any>,
+    spec: FieldSpec,
+    parse: (value: string) => T | null
+  ): { value: T; ruleIndex: number } | null {
+    const rules = this.toRules(spec);
+    for (let i = 0; i < rules.length; i++) {
+      const raw = this.applyRule($scope, rules[i]);
+      if (!raw) {
+        continue;
+      }
+
+      const value = parse(raw);
+      if (value !== null) {
+        return { value, ruleIndex: i };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 校验提取规则（选择器非空、正则可编译），返回错误列表
+   */
+  static validate(specs: { [sourceId: string]: Partial<ExtractionSpec> }): { isValid: boolean; errors: string[] } {
+    const errors: string[] = [];
+
+    for (const [sourceId, spec] of Object.entries(specs)) {
+      for (const field of Object.keys(spec) as (keyof ExtractionSpec)[]) {
+        if (!this.FIELDS.includes(field)) {
+          errors.push(`[${sourceId}] 未知字段: ${field}`);
+          continue;
+        }
+
+        const value = spec[field];
+        if (field === 'listItem' || field === 'content') {
+          if (this.toArray(value as string | string[]).some(selector => typeof selector !== 'string' || !selector.trim())) {
+            errors.push(`[${sourceId}] ${field} 选择器不能为空`);
+          }
+          continue;
+        }
+
+        for (const rule of this.toRules(value as FieldSpec)) {
+          if (rule.regex) {
+            try {
+              new RegExp(rule.regex);
+            } catch (error: any) {
+              errors.push(`[${sourceId}] ${field} 正则无效: ${rule.regex} (${error.message})`);
+            }
+          }
+        }
+      }
+    }
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  /**
+   * 执行单条规则，返回去除首尾空白后的字符串
+   */
+  private static applyRule($scope: cheerio.Cheerio<any>, rule: FieldRule): string | null {
+    let $target = $scope;
+    if (rule.selector) {
+      const $matched = $scope.find(rule.selector);
+      $target = rule.last ? $matched.last() : $matched.first();
+    }
+
+    if ($target.length === 0) {
+      return null;
+    }
+
+    let value = rule.attr ? $target.attr(rule.attr) || '' : $target.text();
+    value = value.replace(/\s+/g, ' ').trim();
+
+    if (value && rule.regex) {
+      const match = value.match(this.getRegex(rule.regex));
+      value = match ? (match[1] ?? match[0]).trim() : '';
+    }
+
+    return value || null;
+  }
+
+  private static getRegex(pattern: string): RegExp {
+    let regex = this.regexCache.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern);
+      this.regexCache.set(pattern, regex);
+    }
+    return regex;
+  }
+
+  private static toRules(spec: FieldSpec): FieldRule[] {
+    return (Array.isArray(spec) ? spec : [spec]).map(rule =>
+      typeof rule === 'string' ? { selector: rule } : rule
+    );
+  }
+
+  private static toArray(selectors: string | string[]): string[] {
+    return Array.isArray(selectors) ? selectors : [selectors];
+  }
+}
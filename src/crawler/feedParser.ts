@@ -0,0 +1,217 @@
+import * as cheerio from 'cheerio';
+import { Notice, CrawlerError, SourceConfig, ParseStats } from '../types';
+import { logger } from '../utils/logger';
+import { HtmlParser } from './parser';
+import { NoticeIdentity } from './noticeIdentity';
+
+// 解析出的条目字段（解析前的原始值）
+interface RawItem {
+  title: string;
+  link: string;
+  date: string;
+  summary: string;
+}
+
+/**
+ * RSS/Atom 订阅与 JSON 列表接口解析器
+ * 输出与 HtmlParser 相同的公告结构和解析统计，之后的过滤、去重和推送流程不变
+ */
+export class FeedParser {
+  // RSS/Atom 默认字段（按顺序尝试）
+  private static readonly FEED_FIELDS = {
+    title: ['title'],
+    link: ['link'],
+    date: ['pubDate', 'dc\\:date', 'published', 'updated'],
+    summary: ['description', 'summary', 'content'],
+  };
+
+  // JSON 默认字段（按顺序尝试）
+  private static readonly JSON_FIELDS = {
+    title: ['title', 'name'],
+    link: ['url', 'link', 'href'],
+    date: ['publishDate', 'pubDate', 'publishTime', 'date', 'createTime'],
+    summary: ['summary', 'description', 'abstract'],
+  };
+
+  /**
+   * 解析 RSS 2.0 / Atom 订阅
+   */
+  static parseFeed(xml: string, source: SourceConfig): { notices: Notice[]; stats: ParseStats } {
+    try {
+      const $ = cheerio.load(xml, { xmlMode: true });
+      const mapping = source.mapping || {};
+      const $items = $('item').length > 0 ? $('item') : $('entry');
+
+      const items: RawItem[] = $items.toArray().map(element => {
+        const $item = $(element);
+        const text = (fields: string[]) => this.firstText($item, fields);
+
+        return {
+          title: text(mapping.title ? [mapping.title] : this.FEED_FIELDS.title),
+          // Atom 的链接在 href 属性中
+          link: mapping.link
+            ? text([mapping.link])
+            : text(this.FEED_FIELDS.link) || this.atomLink($item),
+          date: text(mapping.date ? [mapping.date] : this.FEED_FIELDS.date),
+          summary: text(mapping.summary ? [mapping.summary] : this.FEED_FIELDS.summary),
+        };
+      });
+
+      return this.toNotices(items, source);
+
+    } catch (error: any) {
+      const errorMessage = `解析订阅失败: ${error.message}`;
+      logger.error(errorMessage, error);
+      throw new CrawlerError(errorMessage, 'PARSE_ERROR', { sourceId: source.id, originalError: error });
+    }
+  }
+
+  /**
+   * 解析 JSON 列表接口
+   */
+  static parseJson(body: string, source: SourceConfig): { notices: Notice[]; stats: ParseStats } {
+    let data: any;
+    try {
+      data = JSON.parse(body);
+    } catch (error: any) {
+      throw new CrawlerError(`解析接口响应失败: ${error.message}`, 'PARSE_ERROR', { sourceId: source.id, originalError: error });
+    }
+
+    const mapping = source.mapping || {};
+    const list = mapping.itemsPath ? this.getPath(data, mapping.itemsPath) : data;
+
+    if (!Array.isArray(list)) {
+      logger.warn(`[${source.id}] 接口响应中未找到列表: ${mapping.itemsPath || '(根节点)'}`);
+      return this.toNotices([], source);
+    }
+
+    const items: RawItem[] = list.map(entry => {
+      const field = (paths: string[]) => this.firstValue(entry, paths);
+
+      return {
+        title: field(mapping.title ? [mapping.title] : this.JSON_FIELDS.title),
+        link: mapping.linkTemplate
+          ? this.fillTemplate(mapping.linkTemplate, entry)
+          : field(mapping.link ? [mapping.link] : this.JSON_FIELDS.link),
+        date: field(mapping.date ? [mapping.date] : this.JSON_FIELDS.date),
+        summary: field(mapping.summary ? [mapping.summary] : this.JSON_FIELDS.summary),
+      };
+    });
+
+    return this.toNotices(items, source);
+  }
+
+  /**
+   * 将条目转换为公告，并统计日期解析情况
+   */
+  private static toNotices(items: RawItem[], source: SourceConfig): { notices: Notice[]; stats: ParseStats } {
+    const notices: Notice[] = [];
+    const stats: ParseStats = { listItems: items.length, notices: 0, parsedDates: 0, fallbackDates: 0 };
+
+    for (const item of items) {
+      if (!item.title || !item.link) {
+        continue; // 跳过无效项
+      }
+
+      let url: string;
+      try {
+        url = HtmlParser.resolveUrl(item.link, source.listUrl);
+      } catch (error) {
+        continue; // 跳过无法解析的链接
+      }
+
+      const parsedDate = this.parseDate(item.date);
+      if (!parsedDate) {
+        logger.debug(`未能解析发布日期，使用当前时间: ${item.title}`);
+      }
+      if (parsedDate) {
+        stats.parsedDates++;
+      } else {
+        stats.fallbackDates++;
+      }
+
+      const notice: Notice = {
+        id: '',
+        title: item.title,
+        url,
+        publishDate: parsedDate || new Date().toISOString(),
+        dateSource: parsedDate ? 'parsed' : 'inferred',
+        summary: item.summary ? this.stripHtml(item.summary) : undefined,
+        sourceId: source.id,
+      };
+      notice.id = NoticeIdentity.generate(source, url, notice);
+      notices.push(notice);
+    }
+
+    stats.notices = notices.length;
+    logger.info(`[${source.id}] 成功解析 ${notices.length} 条公告`);
+    return { notices, stats };
+  }
+
+  /**
+   * 解析日期：时间戳（秒或毫秒）、不带时区的日期（按北京时间）、RFC 822/带时区的 ISO 8601
+   */
+  private static parseDate(value: string): string | null {
+    if (!value) {
+      return null;
+    }
+
+    if (/^\d{10}$|^\d{13}$/.test(value)) {
+      const timestamp = parseInt(value) * (value.length === 10 ? 1000 : 1);
+      return new Date(timestamp).toISOString();
+    }
+
+    // "2025-05-29" 等不带时区的日期不能交给 Date 解析（会按 UTC 或容器时区解释）
+    const local = HtmlParser.parseDate(value);
+    if (local) {
+      return local;
+    }
+
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  private static firstText($item: cheerio.Cheerio<any>, tags: string[]): string {
+    for (const tag of tags) {
+      const text = $item.children(tag).first().text().trim();
+      if (text) {
+        return text;
+      }
+    }
+    return '';
+  }
+
+  private static atomLink($item: cheerio.Cheerio<any>): string {
+    const $links = $item.children('link');
+    const $alternate = $links.filter((_, link) => {
+      const rel = link.attribs?.rel;
+      return !rel || rel === 'alternate';
+    });
+    return ($alternate.first().attr('href') || $links.first().attr('href') || '').trim();
+  }
+
+  private static firstValue(entry: any, paths: string[]): string {
+    for (const path of paths) {
+      const value = this.getPath(entry, path);
+      if (value !== undefined && value !== null && String(value).trim()) {
+        return String(value).trim();
+      }
+    }
+    return '';
+  }
+
+  /**
+   * 按点分隔的路径读取字段（如 data.list、author.name）
+   */
+  private static getPath(data: any, path: string): any {
+    return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), data);
+  }
+
+  private static fillTemplate(template: string, entry: any): string {
+    return template.replace(/\{([\w.]+)\}/g, (_, path) => encodeURIComponent(String(this.getPath(entry, path) ?? '')));
+  }
+
+  private static stripHtml(value: string): string {
+    return cheerio.load(value).text().replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { Notice, SourceConfig } from '../types';
+import { ShanghaiTime } from '../utils/shanghaiTime';
+
+// 计算ID所需的公告字段
+type NoticeKey = Pick<Notice, 'title' | 'publishDate' | 'dateSource'>;
+
+/**
+ * 公告唯一标识
+ * ID 格式为 "<数据源ID>:<哈希>"，哈希由规范化URL（及可选的内容指纹）计算，
+ * 不同栏目、不同站点的同名页面（如 post_12345.html）不会互相冲突
+ */
+export class NoticeIdentity {
+  // 不影响页面内容的跟踪参数
+  private static readonly TRACKING_PARAMS = /^(?:utm_\w+|spm|from|source|share_\w+)$/i;
+
+  /**
+   * 生成公告ID
+   */
+  static generate(source: SourceConfig, url: string, notice: NoticeKey): string {
+    const parts = [this.canonicalUrl(url)];
+    const fingerprint = this.fingerprint(source, notice);
+    if (fingerprint) {
+      parts.push(fingerprint);
+    }
+
+    const hash = crypto.createHash('sha1').update(parts.join('\n')).digest('hex').slice(0, 16);
+    return `${source.id}:${hash}`;
+  }
+
+  /**
+   * 规范化URL：忽略协议（http/https 视为同一地址）、大小写不敏感的主机名、默认端口、
+   * 锚点、跟踪参数和查询参数顺序
+   */
+  static canonicalUrl(url: string): string {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      return url.trim();
+    }
+
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !this.TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    const pathname = parsed.pathname.replace(/\/{2,}/g, '/');
+
+    // URL 对象已去除默认端口并将主机名转为小写
+    return `${parsed.host}${pathname}${query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * 旧版ID（URL中的文件名或URL的 base64 截断），仅用于迁移已发送记录
+   */
+  static legacyId(url: string): string {
+    const match = url.match(/\/([^\/]+)\.html?/);
+    if (match) {
+      return match[1];
+    }
+
+    return Buffer.from(url).toString('base64').replace(/[^a-zA-Z0-9]/g, '').slice(0, 16);
+  }
+
+  /**
+   * 是否为新格式ID（带数据源前缀）
+   */
+  static isNamespaced(id: string): boolean {
+    return id.includes(':');
+  }
+
+  /**
+   * 内容指纹：数据源配置了 fingerprint 时，将标题和/或发布日期计入ID
+   * 用于同一URL会发布不同公告的数据源（如固定的公告页、只有接口地址的条目）
+   * 推断的发布日期（抓取时间）每天不同，不计入指纹
+   */
+  private static fingerprint(source: SourceConfig, notice: NoticeKey): string {
+    return (source.fingerprint || [])
+      .map(field => {
+        if (field === 'title') {
+          return notice.title.replace(/\s+/g, '');
+        }
+        return notice.dateSource === 'parsed' ? ShanghaiTime.formatDate(notice.publishDate) : '';
+      })
+      .join('|');
+  }
+}
@@ -1,33 +1,44 @@
 import * as cheerio from 'cheerio';
-import { Notice, CrawlerError } from '../types';
+import { Notice, NoticeAttachment, NoticeTable, CrawlerError, SourceConfig, ParseStats } from '../types';
 import { logger } from '../utils/logger';
+import { ExtractionSpecs } from './extraction';
+import { NoticeIdentity } from './noticeIdentity';
+import { TableExtractor } from './tableExtractor';
+import { ShanghaiTime } from '../utils/shanghaiTime';
 
 /**
  * HTML 数据解析器
  */
 export class HtmlParser {
+  // 识别为附件的文件扩展名
+  private static readonly ATTACHMENT_EXTENSIONS = [
+    'pdf', 'doc', 'docx', 'xls', 'xlsx', 'et', 'wps', 'csv', 'zip', 'rar', '7z'
+  ];
+
   /**
    * 解析通知公告列表页面
+   * 列表项、标题、链接和日期按数据源的提取规则获取
+   */
+  static parseNoticeList(html: string, source: SourceConfig): Notice[] {
+    return this.parseNoticeListWithStats(html, source).notices;
+  }
+
+  /**
+   * 解析通知公告列表页面，同时返回解析统计（用于解析漂移检测）
    */
-  static parseNoticeList(html: string, baseUrl: string = 'https://zjj.sz.gov.cn'): Notice[] {
+  static parseNoticeListWithStats(html: string, source: SourceConfig): { notices: Notice[]; stats: ParseStats } {
     try {
       const $ = cheerio.load(html);
       const notices: Notice[] = [];
+      const spec = ExtractionSpecs.forSource(source);
       
-      // 查找公告列表项 - 更新选择器以匹配深圳住建局网站的实际结构
-      const listItems = $('ul.ftdt-list li, ul.articleList li, .articleList li, table tr, .list-item, .news-list li');
+      // 查找公告列表项
+      const listItems = ExtractionSpecs.selectFirst($, spec.listItem);
+      const stats: ParseStats = { listItems: listItems.length, notices: 0, parsedDates: 0, fallbackDates: 0 };
       
       if (listItems.length === 0) {
-        // 尝试其他可能的选择器
-        const alternativeItems = $('.content a[href*="html"], .main-content a[href*="html"], a[title]');
-        if (alternativeItems.length === 0) {
-          logger.warn('未找到公告列表项，可能需要更新选择器');
-          return notices;
-        }
-        // 将jQuery对象合并
-        alternativeItems.each((_, el) => {
-          listItems.get().push(el);
-        });
+        logger.warn('未找到公告列表项，可能需要更新提取规则');
+        return { notices, stats };
       }
 
       logger.info(`找到 ${listItems.length} 个列表项`);
@@ -37,38 +48,43 @@ export class HtmlParser {
           const $item = $(element);
           
           // 查找标题和链接
-          let $link = $item.find('a[href]').first();
-          if ($link.length === 0) {
-            $link = $item.is('a') ? $item : $item.find('a').first();
-          }
-          
-          if ($link.length === 0) {
-            return; // 跳过没有链接的项
-          }
-
-          const title = this.extractTitle($link);
-          const relativeUrl = $link.attr('href');
+          const title = ExtractionSpecs.extract($item, spec.title, value => value);
+          const relativeUrl = ExtractionSpecs.extract($item, spec.link, value =>
+            value.startsWith('javascript:') || value.startsWith('#') ? null : value
+          );
           
           if (!title || !relativeUrl) {
             return; // 跳过无效项
           }
 
           // 处理相对路径
-          const fullUrl = this.resolveUrl(relativeUrl, baseUrl);
+          const fullUrl = this.resolveUrl(relativeUrl, source.listUrl);
           
-          // 查找发布时间
-          const publishDate = this.extractPublishDate($item);
+          // 查找发布时间，无法解析时使用当前时间并标记为推断
+          const dateMatch = ExtractionSpecs.extractMatch($item, spec.date, value => this.parseDate(value));
+          const publishDate = dateMatch?.value || new Date().toISOString();
+          if (!dateMatch) {
+            logger.debug(`未能解析发布日期，使用当前时间: ${title}`);
+          }
+          if (dateMatch) {
+            stats.parsedDates++;
+          }
+          if (!dateMatch || dateMatch.ruleIndex > 0) {
+            stats.fallbackDates++;
+          }
           
-          // 生成唯一ID（基于URL）
-          const id = this.generateId(fullUrl);
-
           const notice: Notice = {
-            id,
-            title: title.trim(),
+            id: '',
+            title,
             url: fullUrl,
             publishDate,
+            dateSource: dateMatch ? 'parsed' : 'inferred',
+            sourceId: source.id,
           };
 
+          // 生成唯一ID（数据源 + 规范化URL）
+          notice.id = NoticeIdentity.generate(source, fullUrl, notice);
+
           notices.push(notice);
           
         } catch (error: any) {
@@ -76,39 +92,33 @@ export class HtmlParser {
         }
       });
 
-      logger.info(`成功解析 ${notices.length} 条公告`);
-      return notices;
+      stats.notices = notices.length;
+      logger.info(`[${source.id}] 成功解析 ${notices.length} 条公告`);
+      return { notices, stats };
 
     } catch (error: any) {
       const errorMessage = `解析公告列表失败: ${error.message}`;
       logger.error(errorMessage, error);
-      throw new CrawlerError(errorMessage, 'PARSE_ERROR', { originalError: error });
+      throw new CrawlerError(errorMessage, 'PARSE_ERROR', { sourceId: source.id, originalError: error });
     }
   }
 
   /**
    * 解析公告详情页面
    */
-  static parseNoticeDetail(html: string): { content: string; summary: string } {
+  static parseNoticeDetail(
+    html: string,
+    pageUrl: string,
+    source?: SourceConfig
+  ): { content: string; summary: string; attachments: NoticeAttachment[]; tables: NoticeTable[] } {
     try {
       const $ = cheerio.load(html);
+
+      // 附件链接可能位于正文之外（如页面底部的“附件：”区域），在清理前从整页提取
+      const attachments = this.extractAttachments($, pageUrl);
       
       // 查找内容区域
-      const contentSelectors = [
-        '.article-content',
-        '.content',
-        '.main-content',
-        '.detail-content',
-        '#content',
-        '.TRS_Editor',
-        '.article-body'
-      ];
-      
-      let $content = $();
-      for (const selector of contentSelectors) {
-        $content = $(selector);
-        if ($content.length > 0) break;
-      }
+      let $content = ExtractionSpecs.selectFirst($, ExtractionSpecs.forSource(source).content);
       
       if ($content.length === 0) {
         // 如果找不到特定内容区域，尝试获取 body 中的文本
@@ -117,6 +127,17 @@ export class HtmlParser {
 
       // 清理内容
       $content.find('script, style, nav, header, footer, .nav, .navigation').remove();
+
+      // 提取表格（跳过排版表格），正文中的表格替换为逐行文本，避免整表粘连成一段
+      const tables: NoticeTable[] = [];
+      $content.find('table').each((_, element) => {
+        const $table = $(element);
+        const table = TableExtractor.isLayoutTable($table) ? null : TableExtractor.parse($, $table);
+        if (table) {
+          tables.push(table);
+          $table.replaceWith(`\n${TableExtractor.toText(table)}\n`);
+        }
+      });
       
       const fullContent = $content.text().trim();
       
@@ -126,6 +147,8 @@ export class HtmlParser {
       return {
         content: fullContent,
         summary,
+        attachments,
+        tables,
       };
 
     } catch (error: any) {
@@ -133,121 +156,112 @@ export class HtmlParser {
       return {
         content: '',
         summary: '',
+        attachments: [],
+        tables: [],
       };
     }
   }
 
   /**
-   * 提取标题
+   * 提取附件链接
    */
-  private static extractTitle($element: cheerio.Cheerio<any>): string {
-    // 尝试多种方式获取标题
-    let title = $element.attr('title') || '';
-    
-    if (!title) {
-      title = $element.text().trim();
-    }
-    
-    if (!title) {
-      title = $element.find('span, div').first().text().trim();
-    }
-    
-    // 清理标题
-    title = title.replace(/\s+/g, ' ').trim();
-    
-    return title;
-  }
+  private static extractAttachments($: cheerio.CheerioAPI, pageUrl: string): NoticeAttachment[] {
+    const attachments: NoticeAttachment[] = [];
+    const seen = new Set<string>();
 
-  /**
-   * 提取发布时间
-   */
-  private static extractPublishDate($element: cheerio.Cheerio<any>): string {
-    // 特殊处理深圳住建局网站的日期格式
-    // 日期通常在li元素的span中，格式为 "25-05-29"
-    const $dateSpan = $element.find('span').last();
-    if ($dateSpan.length > 0) {
-      const dateText = $dateSpan.text().trim();
-      const parsedDate = this.parseDate(dateText);
-      if (parsedDate) {
-        return parsedDate;
+    $('a[href]').each((_, element) => {
+      const $link = $(element);
+      const href = ($link.attr('href') || '').trim();
+      if (!href || href.startsWith('javascript:') || href.startsWith('#')) {
+        return;
       }
-    }
-    
-    // 尝试查找其他日期格式
-    const dateSelectors = [
-      '.date',
-      '.time',
-      '.publish-date',
-      '.article-date',
-      '[class*="date"]',
-      '[class*="time"]'
-    ];
-    
-    for (const selector of dateSelectors) {
-      const $date = $element.find(selector);
-      if ($date.length > 0) {
-        const dateText = $date.text().trim();
-        const parsedDate = this.parseDate(dateText);
-        if (parsedDate) {
-          return parsedDate;
-        }
+
+      let url: string;
+      try {
+        url = this.resolveUrl(href, pageUrl);
+      } catch (error) {
+        return; // 跳过无法解析的链接
       }
-    }
-    
-    // 尝试从文本中提取日期
-    const fullText = $element.text();
-    const dateMatch = fullText.match(/(\d{2,4}[-/年]\d{1,2}[-/月]\d{1,2}[日]?)/);
-    if (dateMatch) {
-      const parsedDate = this.parseDate(dateMatch[1]);
-      if (parsedDate) {
-        return parsedDate;
+
+      const extension = this.getFileExtension(url);
+      if (!extension || !this.ATTACHMENT_EXTENSIONS.includes(extension) || seen.has(url)) {
+        return;
       }
+      seen.add(url);
+
+      const rawFileName = new URL(url).pathname.split('/').pop() || '';
+      let fileName = rawFileName;
+      try {
+        fileName = decodeURIComponent(rawFileName);
+      } catch (error) {
+        // 保留原始文件名
+      }
+      const linkText = ($link.attr('title') || $link.text()).replace(/\s+/g, ' ').trim();
+
+      attachments.push({
+        name: linkText || fileName,
+        extension,
+        url,
+      });
+    });
+
+    if (attachments.length > 0) {
+      logger.debug(`发现 ${attachments.length} 个附件: ${pageUrl}`);
     }
-    
-    // 默认返回当前时间
-    return new Date().toISOString();
+
+    return attachments;
   }
 
   /**
-   * 解析日期字符串
+   * 获取URL路径中的文件扩展名
    */
-  private static parseDate(dateStr: string): string | null {
-    if (!dateStr) return null;
-    
+  private static getFileExtension(url: string): string | null {
     try {
-      // 处理中文日期格式
-      let normalized = dateStr
-        .replace(/年/g, '-')
-        .replace(/月/g, '-')
-        .replace(/日/g, '')
-        .replace(/\s+/g, '');
-      
-      // 处理不同分隔符
-      normalized = normalized.replace(/[\/]/g, '-');
-      
-      // 处理两位年份格式（如 "25-05-29"）
-      const twoDigitYearMatch = normalized.match(/^(\d{2})-(\d{1,2})-(\d{1,2})$/);
-      if (twoDigitYearMatch) {
-        const [, year, month, day] = twoDigitYearMatch;
-        const fullYear = parseInt(year) + 2000; // 假设是21世纪
-        normalized = `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-      }
-      
-      const date = new Date(normalized);
-      if (isNaN(date.getTime())) {
-        return null;
-      }
-      
-      return date.toISOString();
+      const match = new URL(url).pathname.match(/\.([a-zA-Z0-9]+)$/);
+      return match ? match[1].toLowerCase() : null;
     } catch (error) {
       return null;
     }
   }
 
+  /**
+   * 解析日期字符串（按北京时间解释）
+   * 支持 "2025-05-29"、"25-05-29"、"2025/5/29"、"2025年5月29日"，可带 "10:30[:00]" 时间
+   */
+  static parseDate(dateStr: string): string | null {
+    if (!dateStr) return null;
+
+    const value = dateStr.trim();
+
+    // 带时区的 ISO 时间（如 time 标签的 datetime 属性）无需按北京时间解释
+    if (/^\d{4}-\d{2}-\d{2}T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? null : date.toISOString();
+    }
+
+    const match = value.match(/^(\d{4}|\d{2})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:[T\s]*(\d{1,2})[:：](\d{2})(?:[:：](\d{2}))?)?$/);
+    if (!match) {
+      return null;
+    }
+
+    const [, year, month, day, hour, minute, second] = match;
+    // 两位年份（如 "25-05-29"）假设是21世纪
+    const fullYear = year.length === 2 ? parseInt(year) + 2000 : parseInt(year);
+
+    return ShanghaiTime.fromParts(
+      fullYear,
+      parseInt(month),
+      parseInt(day),
+      hour ? parseInt(hour) : 0,
+      minute ? parseInt(minute) : 0,
+      second ? parseInt(second) : 0
+    );
+  }
+
   /**
    * 解析相对URL
    */
-  private static resolveUrl(relativeUrl: string, baseUrl: string): string {
+  static resolveUrl(relativeUrl: string, baseUrl: string): string {
     if (relativeUrl.startsWith('http')) {
       return relativeUrl;
     }
@@ -261,24 +275,8 @@ export class HtmlParser {
       return `${base.protocol}//${base.host}${relativeUrl}`;
     }
     
-    // 相对路径
-    const base = new URL(baseUrl);
-    const basePath = base.pathname.endsWith('/') ? base.pathname : base.pathname + '/';
-    return `${base.protocol}//${base.host}${basePath}${relativeUrl}`;
-  }
-
-  /**
-   * 生成唯一ID
-   */
-  private static generateId(url: string): string {
-    // 从URL中提取文件名或ID
-    const match = url.match(/\/([^\/]+)\.html?/);
-    if (match) {
-      return match[1];
-    }
-    
-    // 如果无法从URL提取，使用URL的hash
-    return Buffer.from(url).toString('base64').replace(/[^a-zA-Z0-9]/g, '').slice(0, 16);
+    // 相对路径（相对于列表页所在目录，如 ./content/post_123.html）
+    return new URL(relativeUrl, baseUrl).toString();
   }
 
   /**
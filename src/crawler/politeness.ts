@@ -0,0 +1,277 @@
+import axios from 'axios';
+import { CrawlerError } from '../types';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { NetworkAgents } from '../utils/network';
+
+/**
+ * 令牌桶
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+
+  constructor(private rate: number, private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * 获取一个令牌，不足时等待；暂停剩余时间超过 maxBlockMs 时不等待，返回 false
+   */
+  async take(maxBlockMs: number): Promise<boolean> {
+    for (;;) {
+      const now = Date.now();
+
+      if (now < this.blockedUntil) {
+        if (this.blockedUntil - now > maxBlockMs) {
+          return false;
+        }
+        await sleep(this.blockedUntil - now);
+        continue;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return true;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.rate) * 1000));
+    }
+  }
+
+  /**
+   * 暂停发放令牌直到指定时间
+   */
+  blockUntil(timestamp: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, timestamp);
+    this.tokens = 0;
+  }
+
+  /**
+   * 调整速率（如 robots.txt 中的 Crawl-delay）
+   */
+  setRate(rate: number): void {
+    this.rate = rate;
+  }
+
+  private refill(now: number): void {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.rate);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * 按主机限速器
+ * 列表页、详情页和附件下载共享同一主机的令牌桶
+ */
+export class HostRateLimiter {
+  private static buckets: Map<string, TokenBucket> = new Map();
+
+  /**
+   * 等待指定URL所在主机的请求配额
+   * 主机退避的剩余时间超过愿意等待的最长 Retry-After 时直接失败，不阻塞本次运行
+   */
+  static async acquire(url: string): Promise<void> {
+    const host = getHost(url);
+    if (!(await this.getBucket(host).take(config.crawler.maxRetryAfter))) {
+      throw new CrawlerError(`主机 ${host} 退避中，跳过请求: ${url}`, 'HOST_BACKOFF', { url, host });
+    }
+  }
+
+  /**
+   * 主机要求退避（429/503 Retry-After），在此之前暂停该主机的所有请求
+   */
+  static backoff(url: string, delayMs: number): void {
+    const host = getHost(url);
+    this.getBucket(host).blockUntil(Date.now() + delayMs);
+    logger.warn(`主机 ${host} 要求退避，暂停请求 ${delayMs}ms`);
+  }
+
+  /**
+   * 设置主机请求间隔（秒）
+   */
+  static setCrawlDelay(host: string, seconds: number): void {
+    if (seconds > 0) {
+      this.getBucket(host).setRate(Math.min(config.crawler.rateLimit, 1 / seconds));
+      logger.info(`主机 ${host} 的 Crawl-delay 为 ${seconds}s`);
+    }
+  }
+
+  private static getBucket(host: string): TokenBucket {
+    let bucket = this.buckets.get(host);
+    if (!bucket) {
+      bucket = new TokenBucket(config.crawler.rateLimit, config.crawler.rateLimitBurst);
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+}
+
+// robots.txt 规则
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelay?: number;
+  fetchedAt: number;
+}
+
+/**
+ * robots.txt 策略（可选启用）
+ */
+export class RobotsPolicy {
+  private static readonly CACHE_TTL = 24 * 60 * 60 * 1000; // 24小时
+  private static rules: Map<string, RobotsRules> = new Map();
+
+  /**
+   * 检查URL是否允许抓取；未启用或 robots.txt 无法获取时允许
+   */
+  static async isAllowed(url: string): Promise<boolean> {
+    if (!config.crawler.respectRobots) {
+      return true;
+    }
+
+    const { origin, pathname, search } = new URL(url);
+    const rules = await this.getRules(origin);
+    const path = pathname + search;
+
+    const allowMatch = this.longestMatch(rules.allow, path);
+    const disallowMatch = this.longestMatch(rules.disallow, path);
+
+    // 最长匹配优先，长度相同时 Allow 优先
+    return disallowMatch === -1 || allowMatch >= disallowMatch;
+  }
+
+  private static async getRules(origin: string): Promise<RobotsRules> {
+    const cached = this.rules.get(origin);
+    if (cached && Date.now() - cached.fetchedAt < this.CACHE_TTL) {
+      return cached;
+    }
+
+    let rules: RobotsRules = { allow: [], disallow: [], fetchedAt: Date.now() };
+
+    try {
+      const response = await axios.get(`${origin}/robots.txt`, {
+        ...NetworkAgents.forUrl(origin),
+        timeout: config.crawler.timeout,
+        headers: { 'User-Agent': config.crawler.userAgent },
+        validateStatus: status => status < 500,
+      });
+
+      if (response.status === 200 && typeof response.data === 'string') {
+        rules = { ...this.parse(response.data), fetchedAt: Date.now() };
+        logger.info(`已加载 ${origin}/robots.txt，Disallow 规则 ${rules.disallow.length} 条`);
+      }
+    } catch (error: any) {
+      logger.warn(`获取 ${origin}/robots.txt 失败，默认允许抓取: ${error.message}`);
+    }
+
+    if (rules.crawlDelay) {
+      HostRateLimiter.setCrawlDelay(new URL(origin).host, rules.crawlDelay);
+    }
+
+    this.rules.set(origin, rules);
+    return rules;
+  }
+
+  /**
+   * 解析 robots.txt，取适用于 * 的规则组
+   */
+  private static parse(content: string): Omit<RobotsRules, 'fetchedAt'> {
+    const result: Omit<RobotsRules, 'fetchedAt'> = { allow: [], disallow: [] };
+    let applies = false;
+    let inAgentLines = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+      const line = rawLine.replace(/#.*$/, '').trim();
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        continue;
+      }
+
+      const field = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (field === 'user-agent') {
+        // 连续的 User-agent 行属于同一规则组
+        applies = inAgentLines ? applies || value === '*' : value === '*';
+        inAgentLines = true;
+        continue;
+      }
+
+      inAgentLines = false;
+      if (!applies) {
+        continue;
+      }
+
+      if (field === 'disallow' && value) {
+        result.disallow.push(value);
+      } else if (field === 'allow' && value) {
+        result.allow.push(value);
+      } else if (field === 'crawl-delay') {
+        const delay = parseFloat(value);
+        if (!isNaN(delay)) {
+          result.crawlDelay = delay;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 返回匹配的最长规则长度，未匹配时返回 -1
+   */
+  private static longestMatch(patterns: string[], path: string): number {
+    let longest = -1;
+
+    for (const pattern of patterns) {
+      const anchored = pattern.endsWith('$');
+      const body = anchored ? pattern.slice(0, -1) : pattern;
+      const regex = new RegExp(
+        '^' + body.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + (anchored ? '$' : '')
+      );
+
+      if (regex.test(path) && pattern.length > longest) {
+        longest = pattern.length;
+      }
+    }
+
+    return longest;
+  }
+}
+
+/**
+ * 解析 Retry-After 头（秒数或 HTTP 日期），返回毫秒
+ */
+export function parseRetryAfter(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return url;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { CrawlerError } from '../types';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { SnapshotArchive, SnapshotEntry } from '../services/snapshotArchive';
+
+// 回放目录清单文件
+interface ReplayManifest {
+  referenceDate?: string;             // 录制时的日期，用作时间过滤的“当前时间”
+  pages: { [url: string]: string };   // URL -> 相对回放目录的文件路径
+}
+
+/**
+ * 离线回放数据源
+ * 从录制的页面目录响应请求，代替真实网络，用于解析器变更后的回归检查
+ *
+ * 页面查找顺序：
+ * 1. 回放目录下 replay.json 中的 URL 映射
+ * 2. 快照归档（日期目录 + index.jsonl），同一URL取最新的快照
+ * 3. 与 URL 文件名相同的 .html 文件（如 post_12202946.html）
+ */
+export class ReplaySource {
+  private static readonly MANIFEST_FILE = 'replay.json';
+
+  private static pages: Map<string, string> | null = null;
+  private static fileNames: Map<string, string> = new Map();
+  private static referenceDate?: string;
+
+  /**
+   * 是否启用回放模式
+   */
+  static isEnabled(): boolean {
+    return !!config.replay.dir;
+  }
+
+  /**
+   * 当前时间；回放时使用录制日期，保证时间过滤结果可复现
+   */
+  static now(): Date {
+    if (this.isEnabled()) {
+      this.load();
+      const reference = config.replay.referenceDate || this.referenceDate;
+      if (reference) {
+        return new Date(reference);
+      }
+    }
+    return new Date();
+  }
+
+  /**
+   * axios 适配器：从回放目录返回页面，未录制的URL返回 404
+   */
+  static adapter: AxiosAdapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const url = requestConfig.url || '';
+    const file = ReplaySource.resolve(url);
+    const content = file ? ReplaySource.readFile(file) : null;
+
+    const response: AxiosResponse = {
+      data: null,
+      status: content ? 200 : 404,
+      statusText: content ? 'OK' : 'Not Found',
+      headers: {},
+      config: requestConfig,
+    };
+
+    if (!content) {
+      logger.debug(`回放目录中没有该页面: ${url}`);
+      throw new AxiosError(`回放目录中没有该页面: ${url}`, AxiosError.ERR_BAD_REQUEST, requestConfig, null, response);
+    }
+
+    response.data = requestConfig.responseType === 'arraybuffer' ? content : content.toString('utf8');
+    return response;
+  };
+
+  /**
+   * 查找URL对应的录制文件
+   */
+  private static resolve(url: string): string | null {
+    const pages = this.load();
+    return pages.get(url) ?? this.fileNames.get(this.getFileName(url)) ?? null;
+  }
+
+  private static readFile(file: string): Buffer {
+    const content = fs.readFileSync(file);
+    return file.endsWith('.gz') ? zlib.gunzipSync(content) : content;
+  }
+
+  /**
+   * 加载回放目录索引（只加载一次）
+   */
+  private static load(): Map<string, string> {
+    if (this.pages) {
+      return this.pages;
+    }
+
+    const dir = config.replay.dir!;
+    const pages = new Map<string, string>();
+
+    if (!fs.existsSync(dir)) {
+      throw new CrawlerError(`回放目录不存在: ${dir}`, 'REPLAY_DIR_NOT_FOUND', { dir });
+    }
+
+    // 快照归档：按日期升序加载，较新的快照覆盖较旧的
+    for (const name of fs.readdirSync(dir).sort()) {
+      const indexPath = path.join(dir, name, SnapshotArchive.INDEX_FILE);
+      if (!fs.existsSync(indexPath)) {
+        continue;
+      }
+
+      for (const line of fs.readFileSync(indexPath, 'utf8').split('\n')) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          const entry: SnapshotEntry = JSON.parse(line);
+          pages.set(entry.url, path.join(dir, entry.file));
+        } catch (error) {
+          logger.warn(`快照索引行格式错误，已跳过: ${indexPath}`);
+        }
+      }
+    }
+
+    // 清单中的映射优先
+    const manifestPath = path.join(dir, this.MANIFEST_FILE);
+    if (fs.existsSync(manifestPath)) {
+      const manifest: ReplayManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      for (const [url, file] of Object.entries(manifest.pages || {})) {
+        pages.set(url, path.join(dir, file));
+      }
+      this.referenceDate = manifest.referenceDate;
+    }
+
+    for (const name of fs.readdirSync(dir)) {
+      if (/\.html?$/i.test(name)) {
+        this.fileNames.set(name, path.join(dir, name));
+      }
+    }
+
+    logger.info(`回放模式：从 ${dir} 加载 ${pages.size} 个已录制URL，${this.fileNames.size} 个HTML文件`);
+    this.pages = pages;
+    return pages;
+  }
+
+  /**
+   * 提取URL路径中的文件名
+   */
+  private static getFileName(url: string): string {
+    try {
+      return path.posix.basename(new URL(url).pathname);
+    } catch (error) {
+      return '';
+    }
+  }
+}
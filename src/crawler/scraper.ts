@@ -1,7 +1,14 @@
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
-import { CrawlerError, RetryConfig } from '../types';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { CrawlerError, RetryConfig, SourceConfig, PageState } from '../types';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
+import { SourceRegistry } from './sourceRegistry';
+import { PageStateStore } from '../services/pageStateStore';
+import { SnapshotArchive } from '../services/snapshotArchive';
+import { HostRateLimiter, RobotsPolicy, parseRetryAfter } from './politeness';
+import { NetworkAgents } from '../utils/network';
+import { ReplaySource } from './replaySource';
+import { Charset } from '../utils/charset';
 
 /**
  * HTTP 请求封装类
@@ -26,6 +33,8 @@ export class HttpClient {
         'Sec-Fetch-Site': 'none',
         'Cache-Control': 'max-age=0',
       },
+      // 回放模式下从录制的页面响应，不访问网络
+      adapter: ReplaySource.isEnabled() ? ReplaySource.adapter : undefined,
     });
 
     this.retryConfig = {
@@ -69,49 +78,145 @@ export class HttpClient {
   }
 
   /**
-   * GET 请求
+   * GET 请求（按检测到的字符编码解码）
    */
   async get(url: string, config?: AxiosRequestConfig): Promise<string> {
-    return this.requestWithRetry('GET', url, config);
+    const response = await this.executeWithRetry('GET', url, { ...config, responseType: 'arraybuffer' });
+    return this.decodeBody(response);
+  }
+
+  /**
+   * GET 请求（二进制内容，用于下载附件）
+   */
+  async getBuffer(url: string, config?: AxiosRequestConfig): Promise<Buffer> {
+    const data = await this.requestWithRetry<ArrayBuffer>('GET', url, {
+      ...config,
+      responseType: 'arraybuffer',
+    });
+    return Buffer.from(data);
+  }
+
+  /**
+   * 条件 GET 请求
+   * 携带上次记录的 ETag/Last-Modified，服务器返回 304 时 notModified 为 true
+   */
+  async getConditional(url: string, previous?: PageState | null, config?: AxiosRequestConfig): Promise<{
+    notModified: boolean;
+    body: string;
+    etag?: string;
+    lastModified?: string;
+  }> {
+    const headers: Record<string, string> = {};
+    if (previous?.etag) {
+      headers['If-None-Match'] = previous.etag;
+    }
+    if (previous?.lastModified) {
+      headers['If-Modified-Since'] = previous.lastModified;
+    }
+
+    const response = await this.executeWithRetry('GET', url, {
+      ...config,
+      headers: { ...config?.headers, ...headers },
+      responseType: 'arraybuffer',
+    });
+
+    return {
+      notModified: response.status === 304,
+      body: response.status === 304 ? '' : this.decodeBody(response),
+      etag: response.headers['etag'] || undefined,
+      lastModified: response.headers['last-modified'] || undefined,
+    };
   }
 
   /**
    * POST 请求
    */
   async post(url: string, data?: any, config?: AxiosRequestConfig): Promise<string> {
-    return this.requestWithRetry('POST', url, { ...config, data });
+    const response = await this.executeWithRetry('POST', url, { ...config, data, responseType: 'arraybuffer' });
+    return this.decodeBody(response);
+  }
+
+  /**
+   * 以原始字节获取的响应按 Content-Type、meta 标签或内容嗅探解码（兼容 GBK/GB2312 页面）
+   */
+  private decodeBody(response: AxiosResponse): string {
+    return Charset.decode(Buffer.from(response.data), response.headers['content-type'] as string | undefined);
   }
 
   /**
    * 带重试机制的请求
    */
-  private async requestWithRetry(
+  private async requestWithRetry<T = string>(
     method: 'GET' | 'POST',
     url: string,
     config?: AxiosRequestConfig
-  ): Promise<string> {
+  ): Promise<T> {
+    const response = await this.executeWithRetry(method, url, config);
+    return response.data;
+  }
+
+  /**
+   * 带重试机制地发起请求，返回完整响应（200 或 304）
+   * 请求前遵守 robots.txt 和主机限速，429/503 时按 Retry-After 退避
+   */
+  private async executeWithRetry(
+    method: 'GET' | 'POST',
+    url: string,
+    axiosConfig?: AxiosRequestConfig
+  ): Promise<AxiosResponse> {
+    if (!ReplaySource.isEnabled() && !(await RobotsPolicy.isAllowed(url))) {
+      throw new CrawlerError(`robots.txt 禁止抓取: ${url}`, 'ROBOTS_DISALLOWED', { url });
+    }
+
     let lastError: any;
+    const requestConfig: AxiosRequestConfig = {
+      // 未指定时使用全局代理/TLS配置
+      ...NetworkAgents.forUrl(url),
+      ...axiosConfig,
+      validateStatus: status => (status >= 200 && status < 300) || status === 304,
+    };
     
     for (let attempt = 0; attempt <= this.retryConfig.retries; attempt++) {
       try {
+        if (!ReplaySource.isEnabled()) {
+          await HostRateLimiter.acquire(url);
+        }
+
         const response = method === 'GET' 
-          ? await this.client.get(url, config)
-          : await this.client.post(url, config?.data, config);
+          ? await this.client.get(url, requestConfig)
+          : await this.client.post(url, axiosConfig?.data, requestConfig);
         
-        if (response.status === 200) {
-          return response.data;
+        if (response.status === 200 || response.status === 304) {
+          return response;
         } else {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
       } catch (error: any) {
+        // 主机仍在退避中，不重试
+        if (error instanceof CrawlerError && error.code === 'HOST_BACKOFF') {
+          throw error;
+        }
+
         lastError = error;
+
+        // 主机要求退避
+        const retryAfter = this.isBackoffResponse(error)
+          ? parseRetryAfter(error.response.headers?.['retry-after'])
+          : null;
+        if (retryAfter !== null && retryAfter > config.crawler.maxRetryAfter) {
+          HostRateLimiter.backoff(url, retryAfter);
+          break; // 等待时间过长，放弃本次请求
+        }
         
-        if (attempt === this.retryConfig.retries) {
-          break; // 最后一次尝试失败
+        if (attempt === this.retryConfig.retries || !this.isRetryable(error)) {
+          break; // 最后一次尝试失败，或错误不可重试
         }
 
-        // 计算延迟时间（指数退避）
-        const delay = this.retryConfig.delay * Math.pow(this.retryConfig.backoff || 2, attempt);
+        // 计算延迟时间（优先使用 Retry-After，否则指数退避）
+        const delay = retryAfter ?? this.retryConfig.delay * Math.pow(this.retryConfig.backoff || 2, attempt);
+        if (retryAfter !== null) {
+          HostRateLimiter.backoff(url, retryAfter);
+        }
         
         logger.warn(`请求失败，第 ${attempt + 1}/${this.retryConfig.retries + 1} 次尝试，${delay}ms 后重试: ${error.message}`);
         
@@ -119,6 +224,19 @@ export class HttpClient {
       }
     }
 
+    if (this.isBackoffResponse(lastError)) {
+      throw new CrawlerError(
+        `主机要求退避 (HTTP ${lastError.response.status}): ${url}`,
+        'HOST_BACKOFF',
+        {
+          url,
+          status: lastError.response.status,
+          retryAfter: lastError.response.headers?.['retry-after'],
+          originalError: lastError,
+        }
+      );
+    }
+
     // 所有重试都失败了
     const errorMessage = `请求失败，已重试 ${this.retryConfig.retries} 次: ${lastError.message}`;
     throw new CrawlerError(errorMessage, 'NETWORK_ERROR', {
@@ -128,6 +246,29 @@ export class HttpClient {
     });
   }
 
+  /**
+   * 是否为主机要求退避的响应（429 Too Many Requests / 503 Service Unavailable）
+   */
+  private isBackoffResponse(error: any): boolean {
+    const status = error?.response?.status;
+    return status === 429 || status === 503;
+  }
+
+  /**
+   * 判断错误是否值得重试
+   * 4xx 客户端错误和超出大小限制的响应重试也不会成功
+   */
+  private isRetryable(error: any): boolean {
+    const status = error.response?.status;
+    if (status && status >= 400 && status < 500 && status !== 429) {
+      return false;
+    }
+    if (typeof error.message === 'string' && error.message.includes('maxContentLength')) {
+      return false;
+    }
+    return true;
+  }
+
   /**
    * 延迟函数
    */
@@ -148,25 +289,22 @@ export class WebScraper {
   }
 
   /**
-   * 抓取深圳住建局通知公告列表页面
+   * 抓取数据源的通知公告列表页面
    */
-  async fetchNoticeListPage(pageNum: number = 1): Promise<string> {
+  async fetchNoticeListPage(source: SourceConfig, pageNum: number = 1): Promise<string> {
+    const url = SourceRegistry.buildPageUrl(source, pageNum);
+
     try {
-      logger.info(`开始抓取通知公告列表页面，页码: ${pageNum}`);
-      
-      let url = config.crawler.baseUrl;
-      if (pageNum > 1) {
-        // 分页URL格式：index_2.html, index_3.html, ...
-        url = url.replace('/index.html', `/index_${pageNum}.html`);
-      }
+      logger.info(`开始抓取 [${source.id}] 通知公告列表页面，页码: ${pageNum}`);
 
-      const html = await this.httpClient.get(url);
+      const html = await this.httpClient.get(url, this.listRequestConfig(url, source));
       
       if (!html || html.trim().length === 0) {
-        throw new CrawlerError('页面内容为空', 'EMPTY_CONTENT', { url, pageNum });
+        throw new CrawlerError('页面内容为空', 'EMPTY_CONTENT', { url, pageNum, sourceId: source.id });
       }
 
       logger.info(`成功抓取页面，内容长度: ${html.length} 字符`);
+      await SnapshotArchive.save(url, html, 'list');
       return html;
       
     } catch (error: any) {
@@ -176,23 +314,98 @@ export class WebScraper {
       
       const errorMessage = `抓取页面失败: ${error.message}`;
       logger.error(errorMessage, error);
-      throw new CrawlerError(errorMessage, 'FETCH_ERROR', { pageNum, originalError: error });
+      throw new CrawlerError(errorMessage, 'FETCH_ERROR', { url, pageNum, sourceId: source.id, originalError: error });
+    }
+  }
+
+  /**
+   * 抓取列表页，页面未变化时 html 为 null
+   * 返回的 state 需在本次任务成功后通过 PageStateStore 保存
+   */
+  async fetchNoticeListPageIfChanged(source: SourceConfig, pageNum: number = 1): Promise<{
+    html: string | null;
+    state: PageState | null;
+  }> {
+    if (!config.crawler.conditionalGet) {
+      return { html: await this.fetchNoticeListPage(source, pageNum), state: null };
+    }
+
+    const url = SourceRegistry.buildPageUrl(source, pageNum);
+    const previous = await PageStateStore.get(url);
+
+    try {
+      logger.info(`开始抓取 [${source.id}] 通知公告列表页面（条件请求），页码: ${pageNum}`);
+
+      const response = await this.httpClient.getConditional(url, previous, this.listRequestConfig(url, source));
+
+      if (response.notModified) {
+        logger.info(`[${source.id}] 第 ${pageNum} 页未修改 (304)`);
+        return { html: null, state: null };
+      }
+
+      if (!response.body || response.body.trim().length === 0) {
+        throw new CrawlerError('页面内容为空', 'EMPTY_CONTENT', { url, pageNum, sourceId: source.id });
+      }
+
+      const contentHash = PageStateStore.hashContent(response.body);
+      if (previous && previous.contentHash === contentHash) {
+        logger.info(`[${source.id}] 第 ${pageNum} 页内容与上次相同`);
+        return { html: null, state: null };
+      }
+
+      logger.info(`成功抓取页面，内容长度: ${response.body.length} 字符`);
+      await SnapshotArchive.save(url, response.body, 'list');
+      return {
+        html: response.body,
+        state: {
+          url,
+          etag: response.etag,
+          lastModified: response.lastModified,
+          contentHash,
+          updatedAt: new Date().toISOString(),
+        },
+      };
+
+    } catch (error: any) {
+      if (error instanceof CrawlerError) {
+        throw error;
+      }
+
+      const errorMessage = `抓取页面失败: ${error.message}`;
+      logger.error(errorMessage, error);
+      throw new CrawlerError(errorMessage, 'FETCH_ERROR', { url, pageNum, sourceId: source.id, originalError: error });
     }
   }
 
+  /**
+   * 列表页请求配置（代理及与数据源类型对应的 Accept 头）
+   */
+  private listRequestConfig(url: string, source: SourceConfig): AxiosRequestConfig {
+    const accept: { [type: string]: string } = {
+      rss: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5',
+      json: 'application/json, text/plain;q=0.9, */*;q=0.5',
+    };
+
+    return {
+      ...NetworkAgents.forUrl(url, source.proxy),
+      ...(source.type && accept[source.type] ? { headers: { Accept: accept[source.type] } } : {}),
+    };
+  }
+
   /**
    * 抓取公告详情页面
    */
-  async fetchNoticeDetail(url: string): Promise<string> {
+  async fetchNoticeDetail(url: string, source?: SourceConfig): Promise<string> {
     try {
       logger.debug(`抓取公告详情: ${url}`);
       
-      const html = await this.httpClient.get(url);
+      const html = await this.httpClient.get(url, NetworkAgents.forUrl(url, source?.proxy));
       
       if (!html || html.trim().length === 0) {
         throw new CrawlerError('详情页面内容为空', 'EMPTY_CONTENT', { url });
       }
 
+      await SnapshotArchive.save(url, html, 'detail');
       return html;
       
     } catch (error: any) {
@@ -206,23 +419,43 @@ export class WebScraper {
     }
   }
 
+  /**
+   * 下载公告附件（受大小和超时限制）
+   */
+  async fetchAttachment(url: string, source?: SourceConfig): Promise<Buffer> {
+    try {
+      logger.debug(`下载附件: ${url}`);
+
+      return await this.httpClient.getBuffer(url, {
+        ...NetworkAgents.forUrl(url, source?.proxy),
+        timeout: config.attachment.timeout,
+        maxContentLength: config.attachment.maxSize,
+        headers: { Accept: '*/*' },
+      });
+
+    } catch (error: any) {
+      if (error instanceof CrawlerError) {
+        throw error;
+      }
+
+      const errorMessage = `下载附件失败: ${error.message}`;
+      logger.error(errorMessage, error);
+      throw new CrawlerError(errorMessage, 'FETCH_ATTACHMENT_ERROR', { url, originalError: error });
+    }
+  }
+
   /**
    * 批量抓取多个页面
    */
-  async fetchMultiplePages(pageCount: number = 3): Promise<string[]> {
+  async fetchMultiplePages(source: SourceConfig, pageCount: number = 3): Promise<string[]> {
     const results: string[] = [];
     
-    logger.info(`开始批量抓取 ${pageCount} 个页面`);
+    logger.info(`开始批量抓取 [${source.id}] ${pageCount} 个页面`);
     
     for (let i = 1; i <= pageCount; i++) {
       try {
-        const html = await this.fetchNoticeListPage(i);
+        const html = await this.fetchNoticeListPage(source, i);
         results.push(html);
-        
-        // 避免请求过于频繁
-        if (i < pageCount) {
-          await this.sleep(500); // 500ms 间隔
-        }
       } catch (error: any) {
         logger.error(`抓取第 ${i} 页失败: ${error.message}`);
         // 继续抓取下一页，而不是中断整个过程
@@ -234,9 +467,48 @@ export class WebScraper {
   }
 
   /**
-   * 延迟函数
+   * 逐页抓取列表页，直到回调返回 false、页面未变化或达到最大页数
+   * 返回抓取页数、首页是否未变化，以及待保存的页面状态
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  async fetchPagesUntil(
+    source: SourceConfig,
+    maxPages: number,
+    onPage: (html: string, pageNum: number) => Promise<boolean>
+  ): Promise<{ fetched: number; unchanged: boolean; pageStates: PageState[] }> {
+    let fetched = 0;
+    let unchanged = false;
+    const pageStates: PageState[] = [];
+
+    for (let i = 1; i <= maxPages; i++) {
+      let page: { html: string | null; state: PageState | null };
+      try {
+        page = await this.fetchNoticeListPageIfChanged(source, i);
+      } catch (error: any) {
+        if (i === 1) {
+          throw error; // 首页失败视为数据源抓取失败
+        }
+        logger.warn(`[${source.id}] 抓取第 ${i} 页失败，停止翻页: ${error.message}`);
+        break;
+      }
+
+      if (page.html === null) {
+        // 页面未变化，其后的页面也无需再抓取
+        unchanged = i === 1;
+        break;
+      }
+
+      fetched++;
+      if (page.state) {
+        pageStates.push(page.state);
+      }
+
+      const shouldContinue = await onPage(page.html, i);
+      if (!shouldContinue) {
+        break;
+      }
+    }
+
+    logger.info(`[${source.id}] 增量翻页完成，共抓取 ${fetched} 页${unchanged ? '（首页未变化）' : ''}`);
+    return { fetched, unchanged, pageStates };
   }
-} 
\ No newline at end of file
+}
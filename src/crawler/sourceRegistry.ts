@@ -0,0 +1,73 @@
+import { SourceConfig, CrawlerError } from '../types';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+/**
+ * 数据源注册表
+ * 管理所有可抓取的数据源（住建局各栏目、各区住建部门等）
+ */
+export class SourceRegistry {
+  private static sources: Map<string, SourceConfig> = new Map(
+    config.crawler.sources.map(source => [source.id, source])
+  );
+
+  /**
+   * 注册数据源（同ID覆盖）
+   */
+  static register(source: SourceConfig): void {
+    if (this.sources.has(source.id)) {
+      logger.warn(`数据源 ${source.id} 已存在，将被覆盖`);
+    }
+    this.sources.set(source.id, source);
+    logger.info(`注册数据源: ${source.id} (${source.name})`);
+  }
+
+  /**
+   * 获取指定数据源
+   */
+  static get(id: string): SourceConfig | undefined {
+    return this.sources.get(id);
+  }
+
+  /**
+   * 获取指定数据源，不存在时抛出错误
+   */
+  static require(id: string): SourceConfig {
+    const source = this.sources.get(id);
+    if (!source) {
+      throw new CrawlerError(`未知的数据源: ${id}`, 'UNKNOWN_SOURCE', { id });
+    }
+    return source;
+  }
+
+  /**
+   * 获取全部数据源
+   */
+  static getAll(): SourceConfig[] {
+    return Array.from(this.sources.values());
+  }
+
+  /**
+   * 获取已启用的数据源
+   */
+  static getEnabled(): SourceConfig[] {
+    return this.getAll().filter(source => source.enabled);
+  }
+
+  /**
+   * 构建指定页码的列表页URL
+   */
+  static buildPageUrl(source: SourceConfig, pageNum: number): string {
+    if (pageNum <= 1) {
+      return source.listUrl;
+    }
+
+    if (!source.pagination) {
+      // 未配置分页规则时沿用通用格式：index_2.html, index_3.html, ...
+      return source.listUrl.replace('/index.html', `/index_${pageNum}.html`);
+    }
+
+    const page = pageNum + (source.pagination.pageOffset || 0);
+    return source.pagination.urlPattern.replace('{page}', String(page));
+  }
+}
@@ -0,0 +1,160 @@
+import * as cheerio from 'cheerio';
+import { NoticeTable } from '../types';
+
+/**
+ * 详情页表格提取
+ * 按 rowspan/colspan 展开为规则的二维表，识别表头（thead、th 行或首行），
+ * 多行表头按列合并为 "上级/下级"
+ */
+export class TableExtractor {
+  // 超过该行数的表格只保留前面的行
+  private static readonly MAX_ROWS = 2000;
+
+  // 可作为表格标题的前一段文字的最大长度
+  private static readonly MAX_CAPTION_LENGTH = 60;
+
+  /**
+   * 是否为排版用的表格（包含其他表格）
+   */
+  static isLayoutTable($table: cheerio.Cheerio<any>): boolean {
+    return $table.find('table').length > 0;
+  }
+
+  /**
+   * 将表格转为 "列1 | 列2" 形式的文本行（不含标题），用于正文搜索
+   */
+  static toText(table: NoticeTable): string {
+    return [table.headers, ...table.rows].map(row => row.join(' | ')).join('\n');
+  }
+
+  /**
+   * 转为 CSV（RFC 4180）
+   */
+  static toCsv(table: NoticeTable): string {
+    const escape = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+    return [table.headers, ...table.rows]
+      .filter(row => row.length > 0)
+      .map(row => row.map(escape).join(','))
+      .join('\r\n');
+  }
+
+  /**
+   * 解析单个表格，单行或单列的表格返回 null
+   */
+  static parse($: cheerio.CheerioAPI, $table: cheerio.Cheerio<any>): NoticeTable | null {
+    const $rows = $table.find('tr');
+    const grid: string[][] = [];
+    const headerRows = new Set<number>();
+
+    $rows.each((rowIndex, row) => {
+      if (rowIndex >= this.MAX_ROWS) {
+        return false;
+      }
+
+      const $row = $(row);
+      const $cells = $row.children('th, td');
+      grid[rowIndex] = grid[rowIndex] || [];
+
+      if ($row.parent('thead').length > 0 || ($cells.length > 0 && $cells.filter('td').length === 0)) {
+        headerRows.add(rowIndex);
+      }
+
+      let column = 0;
+      $cells.each((_, cell) => {
+        const $cell = $(cell);
+        const text = $cell.text().replace(/\s+/g, ' ').trim();
+        const rowspan = this.span($cell.attr('rowspan'));
+        const colspan = this.span($cell.attr('colspan'));
+
+        // 跳过被上方单元格 rowspan 占用的位置
+        while (grid[rowIndex][column] !== undefined) {
+          column++;
+        }
+
+        for (let r = 0; r < rowspan && rowIndex + r < $rows.length; r++) {
+          grid[rowIndex + r] = grid[rowIndex + r] || [];
+          for (let c = 0; c < colspan; c++) {
+            grid[rowIndex + r][column + c] = text;
+          }
+        }
+        column += colspan;
+      });
+      return undefined;
+    });
+
+    const width = Math.max(0, ...grid.map(row => row.length));
+    const entries = grid
+      .map((row, index) => ({
+        cells: Array.from({ length: width }, (_, column) => row[column] ?? ''),
+        header: headerRows.has(index),
+      }))
+      .filter(entry => entry.cells.some(cell => cell.length > 0));
+    const rows = entries.map(entry => entry.cells);
+
+    if (rows.length < 2 || width < 2) {
+      return null; // 单行或单列通常是排版用的表格
+    }
+
+    // 没有标记表头时，以首行作为表头
+    const headerCount = this.countLeadingHeaders(entries.map(entry => entry.header)) || 1;
+    const headers = this.mergeHeaders(rows.slice(0, headerCount), width);
+
+    const table: NoticeTable = {
+      headers,
+      rows: rows.slice(headerCount),
+    };
+
+    const caption = this.findCaption($, $table);
+    if (caption) {
+      table.caption = caption;
+    }
+
+    return table;
+  }
+
+  /**
+   * 开头连续的表头行数
+   */
+  private static countLeadingHeaders(isHeader: boolean[]): number {
+    let count = 0;
+    while (isHeader[count] && count < isHeader.length - 1) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * 合并多行表头，如 "房源" + "套数" -> "房源/套数"（上下相同时只保留一个）
+   */
+  private static mergeHeaders(headerRows: string[][], width: number): string[] {
+    return Array.from({ length: width }, (_, column) => {
+      const parts: string[] = [];
+      for (const row of headerRows) {
+        const text = row[column];
+        if (text && parts[parts.length - 1] !== text) {
+          parts.push(text);
+        }
+      }
+      return parts.join('/');
+    });
+  }
+
+  /**
+   * 表格标题：caption，或紧邻表格之前的一段短文字
+   */
+  private static findCaption($: cheerio.CheerioAPI, $table: cheerio.Cheerio<any>): string | undefined {
+    const caption = $table.children('caption').text().replace(/\s+/g, ' ').trim();
+    if (caption) {
+      return caption;
+    }
+
+    const previous = $table.prevAll().filter((_, element) => $(element).text().trim().length > 0).first();
+    const text = previous.text().replace(/\s+/g, ' ').trim();
+    return text && text.length <= this.MAX_CAPTION_LENGTH ? text : undefined;
+  }
+
+  private static span(value?: string): number {
+    const span = parseInt(value || '1');
+    return isNaN(span) || span < 1 ? 1 : Math.min(span, 100);
+  }
+}
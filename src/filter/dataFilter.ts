@@ -1,15 +1,37 @@
-import { Notice, FilterResult } from '../types';
+import { Notice, FilterResult, TraceStage } from '../types';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
+import { ReplaySource } from '../crawler/replaySource';
+import { CategoryService } from '../services/categoryService';
+import { FilterTrace } from '../services/filterTrace';
+import { ShanghaiTime } from '../utils/shanghaiTime';
+import { FilterQuery, QueryField, QueryNode } from './filterQuery';
 
 /**
  * 数据过滤器
  */
 export class DataFilter {
+  // 已解析的过滤表达式（按表达式文本缓存）
+  private static queries = new Map<string, QueryNode>();
+
   /**
    * 过滤公告数据
    */
   static filter(notices: Notice[]): FilterResult {
+    const prefiltered = this.prefilter(notices);
+    const filteredNotices = this.filterByContent(prefiltered.notices);
+
+    return {
+      ...prefiltered,
+      notices: filteredNotices,
+      filteredCount: filteredNotices.length,
+    };
+  }
+
+  /**
+   * 预过滤：时间范围和数据校验（去重和详情补全之前执行）
+   */
+  static prefilter(notices: Notice[]): FilterResult {
     const originalCount = notices.length;
     logger.info(`开始过滤 ${originalCount} 条公告`);
 
@@ -19,17 +41,9 @@ export class DataFilter {
     filteredNotices = this.filterByDate(filteredNotices);
     logger.info(`时间过滤后剩余: ${filteredNotices.length} 条`);
 
-    // 2. 关键词过滤
-    filteredNotices = this.filterByKeywords(filteredNotices);
-    logger.info(`关键词过滤后剩余: ${filteredNotices.length} 条`);
-
-    // 3. 排除关键词过滤
-    filteredNotices = this.filterByExcludeKeywords(filteredNotices);
-    logger.info(`排除关键词过滤后剩余: ${filteredNotices.length} 条`);
-
-    // 4. 数据清理和验证
+    // 2. 数据清理和验证
     filteredNotices = this.cleanAndValidate(filteredNotices);
-    logger.info(`数据清理后最终剩余: ${filteredNotices.length} 条`);
+    logger.info(`数据清理后剩余: ${filteredNotices.length} 条`);
 
     return {
       notices: filteredNotices,
@@ -40,24 +54,59 @@ export class DataFilter {
   }
 
   /**
-   * 按时间过滤
+   * 内容过滤：包含/排除关键词、过滤表达式、结构化字段
+   * 在详情补全之后执行时，可匹配正文及附件文本
+   */
+  static filterByContent(notices: Notice[]): Notice[] {
+    let filteredNotices = notices;
+
+    // 1. 关键词过滤
+    filteredNotices = this.filterByKeywords(filteredNotices);
+    logger.info(`关键词过滤后剩余: ${filteredNotices.length} 条`);
+
+    // 2. 排除关键词过滤
+    filteredNotices = this.filterByExcludeKeywords(filteredNotices);
+    logger.info(`排除关键词过滤后剩余: ${filteredNotices.length} 条`);
+
+    // 3. 过滤表达式
+    if (config.filter.query || config.filter.excludeQuery) {
+      filteredNotices = this.filterByQuery(filteredNotices);
+      logger.info(`表达式过滤后剩余: ${filteredNotices.length} 条`);
+    }
+
+    // 4. 结构化字段过滤
+    filteredNotices = this.filterByFields(filteredNotices);
+    logger.info(`字段过滤后剩余: ${filteredNotices.length} 条`);
+
+    return filteredNotices;
+  }
+
+  /**
+   * 按时间过滤：保留北京时间 dayRange 天前零点之后发布的公告
+   * 发布日期为推断值（抓取时间）时按 inferredDatePolicy 处理，不参与时间比较
    */
   private static filterByDate(notices: Notice[]): Notice[] {
     if (config.filter.dayRange <= 0) {
       return notices;
     }
 
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - config.filter.dayRange);
+    const today = ShanghaiTime.startOfDay(ReplaySource.now());
+    const cutoffDate = new Date(today.getTime() - config.filter.dayRange * 24 * 60 * 60 * 1000);
 
-    return notices.filter(notice => {
-      try {
-        const publishDate = new Date(notice.publishDate);
-        return publishDate >= cutoffDate;
-      } catch (error) {
+    return this.applyStage(notices, 'date', notice => {
+      if (notice.dateSource === 'inferred') {
+        logger.debug(`发布日期为推断值，按策略 ${config.filter.inferredDatePolicy} 处理: ${notice.title}`);
+        return config.filter.inferredDatePolicy === 'keep' ? undefined : '发布日期无法解析（推断日期按策略 drop 过滤）';
+      }
+
+      const publishDate = new Date(notice.publishDate);
+      if (isNaN(publishDate.getTime())) {
         logger.warn(`解析日期失败，保留公告: ${notice.title}`);
-        return true; // 解析失败时保留
+        return undefined; // 解析失败时保留
       }
+      return publishDate >= cutoffDate
+        ? undefined
+        : `发布日期 ${ShanghaiTime.formatDate(publishDate)} 早于 ${ShanghaiTime.formatDate(cutoffDate)}（${config.filter.dayRange} 天内）`;
     });
   }
 
@@ -69,12 +118,12 @@ export class DataFilter {
       return notices;
     }
 
-    return notices.filter(notice => {
-      const searchText = `${notice.title} ${notice.summary || ''}`.toLowerCase();
+    return this.applyStage(notices, 'keywords', notice => {
+      const searchText = this.getSearchText(notice);
       
       return config.filter.keywords.some(keyword => 
         searchText.includes(keyword.toLowerCase())
-      );
+      ) ? undefined : `未包含任何关键词（${config.filter.keywords.join('、')}）`;
     });
   }
 
@@ -86,50 +135,151 @@ export class DataFilter {
       return notices;
     }
 
-    return notices.filter(notice => {
+    return this.applyStage(notices, 'exclude-keywords', notice => {
       const searchText = `${notice.title} ${notice.summary || ''}`.toLowerCase();
-      
-      return !config.filter.excludeKeywords.some(keyword => 
+      const excluded = config.filter.excludeKeywords.find(keyword => 
         searchText.includes(keyword.toLowerCase())
       );
+      
+      return excluded ? `命中排除关键词 ${excluded}` : undefined;
     });
   }
 
+  /**
+   * 按过滤表达式过滤：保留命中包含表达式、且未命中排除表达式的公告
+   */
+  private static filterByQuery(notices: Notice[]): Notice[] {
+    const { query, excludeQuery } = config.filter;
+
+    return this.applyStage(notices, 'query', notice => {
+      if (query && !this.matchesQuery(notice, query)) {
+        return `不符合过滤表达式 ${query}`;
+      }
+      return excludeQuery && this.matchesQuery(notice, excludeQuery) ? `命中排除表达式 ${excludeQuery}` : undefined;
+    });
+  }
+
+  /**
+   * 公告是否命中过滤表达式
+   */
+  static matchesQuery(notice: Notice, expression: string): boolean {
+    return FilterQuery.evaluate(this.getQuery(expression), field => this.getFieldText(notice, field));
+  }
+
+  private static getQuery(expression: string): QueryNode {
+    let query = this.queries.get(expression);
+    if (!query) {
+      query = FilterQuery.parse(expression);
+      this.queries.set(expression, query);
+    }
+    return query;
+  }
+
+  /**
+   * 表达式字段对应的文本；未限定字段时为标题、摘要和正文
+   * 分类在推送前才写入公告，过滤时按分类规则计算
+   */
+  private static getFieldText(notice: Notice, field?: QueryField): string {
+    switch (field) {
+      case 'title':
+        return notice.title;
+      case 'summary':
+        return notice.summary || '';
+      case 'content':
+        return notice.content || '';
+      case 'category':
+        return CategoryService.getCategory(notice);
+      case 'district':
+      case 'housingType':
+      case 'stage':
+        return notice.fields?.[field] || '';
+      default:
+        return `${notice.title} ${notice.summary || ''} ${notice.content || ''}`;
+    }
+  }
+
+  /**
+   * 按结构化字段过滤（住房类型、配售阶段、行政区）
+   * 配置了某个字段时，未识别出该字段的公告也会被过滤
+   */
+  private static filterByFields(notices: Notice[]): Notice[] {
+    const { housingTypes, stages, districts } = config.filter;
+    if (housingTypes.length === 0 && stages.length === 0 && districts.length === 0) {
+      return notices;
+    }
+
+    const mismatch = (name: string, allowed: string[], value?: string) => {
+      if (allowed.length === 0 || (!!value && allowed.includes(value))) {
+        return undefined;
+      }
+      return `${name} ${value || '未识别'} 不在 ${allowed.join('、')} 中`;
+    };
+
+    return this.applyStage(notices, 'fields', notice => {
+      const fields = notice.fields;
+      return mismatch('住房类型', housingTypes, fields?.housingType)
+        || mismatch('阶段', stages, fields?.stage)
+        || mismatch('行政区', districts, fields?.district);
+    });
+  }
+
+  /**
+   * 获取用于包含关键词匹配的文本（标题、摘要、正文及附件文本）
+   */
+  private static getSearchText(notice: Notice): string {
+    return `${notice.title} ${notice.summary || ''} ${notice.content || ''}`.toLowerCase();
+  }
+
   /**
    * 数据清理和验证
    */
   private static cleanAndValidate(notices: Notice[]): Notice[] {
-    return notices
-      .filter(notice => {
-        // 验证必要字段
-        if (!notice.id || !notice.title || !notice.url) {
-          logger.warn(`公告数据不完整，已跳过: ${notice.title || '未知标题'}`);
-          return false;
-        }
-
-        // 验证URL格式
-        try {
-          new URL(notice.url);
-        } catch (error) {
-          logger.warn(`公告URL格式无效，已跳过: ${notice.url}`);
-          return false;
-        }
-
-        // 验证标题长度
-        if (notice.title.length < 5 || notice.title.length > 200) {
-          logger.warn(`公告标题长度异常，已跳过: ${notice.title}`);
-          return false;
-        }
-
-        return true;
-      })
-      .map(notice => ({
-        ...notice,
-        // 清理标题
-        title: this.cleanTitle(notice.title),
-        // 清理摘要
-        summary: notice.summary ? this.cleanSummary(notice.summary) : undefined,
-      }));
+    const validNotices = this.applyStage(notices, 'validate', notice => {
+      // 验证必要字段
+      if (!notice.id || !notice.title || !notice.url) {
+        logger.warn(`公告数据不完整，已跳过: ${notice.title || '未知标题'}`);
+        return `缺少${!notice.id ? 'ID' : !notice.title ? '标题' : '链接'}`;
+      }
+
+      // 验证URL格式
+      try {
+        new URL(notice.url);
+      } catch (error) {
+        logger.warn(`公告URL格式无效，已跳过: ${notice.url}`);
+        return `URL 格式无效: ${notice.url}`;
+      }
+
+      // 验证标题长度
+      if (notice.title.length < 5 || notice.title.length > 200) {
+        logger.warn(`公告标题长度异常，已跳过: ${notice.title}`);
+        return notice.title.length < 5 ? `标题长度 ${notice.title.length} < 5` : `标题长度 ${notice.title.length} > 200`;
+      }
+
+      return undefined;
+    });
+
+    return validNotices.map(notice => ({
+      ...notice,
+      // 清理标题
+      title: this.cleanTitle(notice.title),
+      // 清理摘要
+      summary: notice.summary ? this.cleanSummary(notice.summary) : undefined,
+    }));
+  }
+
+  /**
+   * 按阶段过滤公告并记录判定（reject 返回过滤原因，保留时返回 undefined）
+   */
+  private static applyStage(notices: Notice[], stage: TraceStage, reject: (notice: Notice) => string | undefined): Notice[] {
+    return notices.filter(notice => {
+      const reason = reject(notice);
+      if (reason) {
+        FilterTrace.drop(notice, stage, reason);
+        return false;
+      }
+      FilterTrace.pass(notice, stage);
+      return true;
+    });
   }
 
   /**
@@ -180,6 +330,11 @@ export class DataFilter {
     excludeKeywordsCount: number;
     keywords: string[];
     excludeKeywords: string[];
+    query?: string;
+    excludeQuery?: string;
+    housingTypes: string[];
+    stages: string[];
+    districts: string[];
   } {
     return {
       dayRange: config.filter.dayRange,
@@ -187,6 +342,11 @@ export class DataFilter {
       excludeKeywordsCount: config.filter.excludeKeywords.length,
       keywords: config.filter.keywords,
       excludeKeywords: config.filter.excludeKeywords,
+      query: config.filter.query,
+      excludeQuery: config.filter.excludeQuery,
+      housingTypes: config.filter.housingTypes,
+      stages: config.filter.stages,
+      districts: config.filter.districts,
     };
   }
 } 
\ No newline at end of file
@@ -1,6 +1,8 @@
-import { Notice, FilterResult } from '../types';
-import { cache } from '../utils/cache';
+import { Notice, FilterResult, NoticeOutcome } from '../types';
+import { cache, seenCache } from '../utils/cache';
 import { logger } from '../utils/logger';
+import { ShanghaiTime } from '../utils/shanghaiTime';
+import { FilterTrace } from '../services/filterTrace';
 
 // 动态导入Redis服务，避免在Redis不可用时影响内存缓存
 let redisService: any = null;
@@ -32,8 +34,10 @@ let isRedisAvailable = false;
 export class DeduplicationFilter {
   /**
    * 处理去重（支持Redis和内存缓存双重模式）
+   * 按订阅者分别记录已发送，任一订阅者未接收过的公告即为新公告；
+   * 未指定订阅者（undefined）时使用全局记录
    */
-  static async process(filterResult: FilterResult): Promise<FilterResult> {
+  static async process(filterResult: FilterResult, subscriberIds: Array<string | undefined> = [undefined]): Promise<FilterResult> {
     const { notices, totalCount, filteredCount } = filterResult;
     
     logger.info(`开始去重处理，输入 ${notices.length} 条公告`);
@@ -42,23 +46,17 @@ export class DeduplicationFilter {
     const internallyDeduped = this.removeDuplicatesWithinBatch(notices);
     logger.info(`内部去重后剩余: ${internallyDeduped.length} 条`);
 
-    // 2. 缓存去重（与历史记录比较）
-    let newNotices: Notice[];
-    if (isRedisAvailable && redisService) {
-      newNotices = await this.filterNewNoticesWithRedis(internallyDeduped);
-    } else {
-      newNotices = this.filterNewNotices(internallyDeduped);
+    // 2. 缓存去重（与各订阅者的历史记录比较）
+    // 推送后由调用方按订阅者标记已发送
+    const unsentIds = new Set<string>();
+    for (const subscriberId of subscriberIds) {
+      (await this.filterUnsent(internallyDeduped, subscriberId)).forEach(notice => unsentIds.add(notice.id));
     }
+    const newNotices = internallyDeduped.filter(notice => unsentIds.has(notice.id));
+    await this.traceSent(internallyDeduped, unsentIds, subscriberIds);
     
     logger.info(`缓存去重后新增: ${newNotices.length} 条`);
 
-    // 3. 更新缓存
-    if (isRedisAvailable && redisService) {
-      await this.updateRedisCache(newNotices);
-    } else {
-      this.updateCache(newNotices);
-    }
-
     return {
       notices: newNotices,
       totalCount,
@@ -68,45 +66,110 @@ export class DeduplicationFilter {
   }
 
   /**
-   * 使用Redis过滤新公告
+   * 记录已处理判定，被过滤的公告附上此前的处理结果（推送时间，或未推送时被过滤的阶段和原因）
    */
-  private static async filterNewNoticesWithRedis(notices: Notice[]): Promise<Notice[]> {
-    if (!redisService || notices.length === 0) {
-      return notices;
+  private static async traceSent(notices: Notice[], unsentIds: Set<string>, subscriberIds: Array<string | undefined>): Promise<void> {
+    if (!FilterTrace.isActive()) {
+      return;
     }
 
-    try {
-      const noticeIds = notices.map(notice => notice.id);
-      const sentStatus = await redisService.checkBatchSentStatus(noticeIds);
-      
-      const newNotices = notices.filter(notice => !sentStatus[notice.id]);
-      
-      logger.info(`Redis去重: 输入 ${notices.length} 条，过滤掉 ${notices.length - newNotices.length} 条已发送的公告`);
-      
-      return newNotices;
-    } catch (error: any) {
-      logger.error('Redis去重失败，降级到内存缓存:', error);
-      return this.filterNewNotices(notices);
+    const handled = notices.filter(notice => !unsentIds.has(notice.id));
+    const outcomes: { [id: string]: NoticeOutcome[] } = {};
+    for (const subscriberId of handled.length > 0 ? subscriberIds : []) {
+      for (const [id, outcome] of Object.entries(await this.getOutcomes(handled, subscriberId))) {
+        if (outcome) {
+          outcomes[id] = [...(outcomes[id] || []), outcome];
+        }
+      }
+    }
+
+    for (const notice of notices) {
+      if (unsentIds.has(notice.id)) {
+        FilterTrace.pass(notice, 'sent');
+      } else {
+        FilterTrace.drop(notice, 'sent', this.describeOutcomes(outcomes[notice.id] || [], subscriberIds.length));
+      }
     }
   }
 
   /**
-   * 更新Redis缓存
+   * 描述此前的处理结果，如 "已推送 2024-06-06 09:00"、"2024-06-06 09:00 处理时未推送: [排除关键词] 命中排除关键词 公示"
    */
-  private static async updateRedisCache(notices: Notice[]): Promise<void> {
+  private static describeOutcomes(outcomes: NoticeOutcome[], total: number): string {
+    const time = (outcome: NoticeOutcome) => outcome.at ? ShanghaiTime.formatDateTime(outcome.at) : '（时间未知）';
+    const latest = (list: NoticeOutcome[]) => [...list].sort((a, b) => (b.at || '').localeCompare(a.at || ''))[0];
+    const pushed = outcomes.filter(outcome => outcome.pushed);
+    const skipped = outcomes.filter(outcome => !outcome.pushed);
+    const parts: string[] = [];
+
+    if (pushed.length > 0) {
+      parts.push(`已推送${total > 1 ? `给 ${pushed.length}/${total} 个订阅者` : ''} ${time(latest(pushed))}`);
+    }
+    if (skipped.length > 0) {
+      const outcome = latest(skipped);
+      const stage = outcome.stage ? `[${FilterTrace.STAGE_LABELS[outcome.stage]}] ` : '';
+      const recipients = total > 1 ? `（${skipped.length}/${total} 个订阅者）` : '';
+      parts.push(`${time(outcome)} 处理时未推送${recipients}: ${stage}${outcome.reason || '原因未记录'}`);
+    }
+
+    return parts.join('；') || '已处理（时间未知）';
+  }
+
+  /**
+   * 获取公告此前的处理结果（没有记录时为 null）
+   */
+  private static async getOutcomes(notices: Notice[], subscriberId?: string): Promise<{ [id: string]: NoticeOutcome | null }> {
+    const ids = notices.map(notice => notice.id);
+    if (isRedisAvailable && redisService) {
+      return redisService.getBatchOutcomes(ids, subscriberId);
+    }
+
+    const outcomes: { [id: string]: NoticeOutcome | null } = {};
+    for (const id of ids) {
+      const sent = cache.get(this.cacheKey(id, subscriberId));
+      const processed = cache.get(this.processedCacheKey(id, subscriberId));
+      if (sent) {
+        outcomes[id] = { pushed: true, at: new Date(sent.timestamp).toISOString() };
+      } else if (processed) {
+        outcomes[id] = processed.value ? JSON.parse(processed.value) as NoticeOutcome : { pushed: false, at: new Date(processed.timestamp).toISOString() };
+      } else {
+        outcomes[id] = null;
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * 过滤出订阅者未接收过、也未处理过的公告（Redis优先）
+   */
+  static async filterUnsent(notices: Notice[], subscriberId?: string): Promise<Notice[]> {
+    if (isRedisAvailable && redisService) {
+      return this.filterNewNoticesWithRedis(notices, subscriberId);
+    }
+    return this.filterNewNotices(notices, subscriberId);
+  }
+
+  /**
+   * 使用Redis过滤新公告
+   */
+  private static async filterNewNoticesWithRedis(notices: Notice[], subscriberId?: string): Promise<Notice[]> {
     if (!redisService || notices.length === 0) {
-      return;
+      return notices;
     }
 
     try {
-      const ids = notices.map(notice => notice.id);
-      await redisService.markBatchAsSent(ids);
+      const noticeIds = notices.map(notice => notice.id);
+      const sentStatus = await redisService.checkBatchSentStatus(noticeIds, subscriberId);
+      const processedStatus = await redisService.checkBatchProcessedStatus(noticeIds, subscriberId);
+      
+      const newNotices = notices.filter(notice => !sentStatus[notice.id] && !processedStatus[notice.id]);
       
-      logger.info(`Redis缓存更新完成，新增 ${ids.length} 条记录`);
+      logger.info(`Redis去重${subscriberId ? ` [${subscriberId}]` : ''}: 输入 ${notices.length} 条，过滤掉 ${notices.length - newNotices.length} 条已发送或已处理的公告`);
+      
+      return newNotices;
     } catch (error: any) {
-      logger.error('Redis缓存更新失败:', error);
-      // 降级到内存缓存
-      this.updateCache(notices);
+      logger.error('Redis去重失败，降级到内存缓存:', error);
+      return this.filterNewNotices(notices, subscriberId);
     }
   }
 
@@ -127,6 +190,48 @@ export class DeduplicationFilter {
     return !cache.has(notice.id);
   }
 
+  /**
+   * 检查一批公告是否全部抓取过（用于增量翻页的停止条件）
+   */
+  static async areAllSeen(notices: Notice[]): Promise<boolean> {
+    if (notices.length === 0) {
+      return false;
+    }
+
+    const ids = notices.map(notice => notice.id);
+
+    if (isRedisAvailable && redisService) {
+      try {
+        const seenStatus = await redisService.checkBatchSeenStatus(ids);
+        return ids.every(id => seenStatus[id]);
+      } catch (error: any) {
+        logger.error('Redis检查失败，降级到内存缓存:', error);
+      }
+    }
+
+    // 降级到内存缓存
+    return ids.every(id => seenCache.has(id));
+  }
+
+  /**
+   * 批量标记公告为已抓取过（Redis优先）
+   */
+  static async markBatchAsSeen(notices: Notice[]): Promise<void> {
+    const ids = notices.map(notice => notice.id);
+
+    if (isRedisAvailable && redisService) {
+      try {
+        await redisService.markBatchAsSeen(ids);
+        return;
+      } catch (error: any) {
+        logger.error('Redis批量标记失败，降级到内存缓存:', error);
+      }
+    }
+
+    // 降级到内存缓存
+    ids.forEach(id => seenCache.add(id));
+  }
+
   /**
    * 标记公告为已发送（Redis优先）
    */
@@ -145,12 +250,12 @@ export class DeduplicationFilter {
   }
 
   /**
-   * 批量标记公告为已发送（Redis优先）
+   * 批量标记公告为已发送（Redis优先，指定订阅者时只记录该订阅者）
    */
-  static async markBatchAsSent(noticeIds: string[]): Promise<void> {
+  static async markBatchAsSent(noticeIds: string[], subscriberId?: string): Promise<void> {
     if (isRedisAvailable && redisService) {
       try {
-        await redisService.markBatchAsSent(noticeIds);
+        await redisService.markBatchAsSent(noticeIds, subscriberId);
         return;
       } catch (error: any) {
         logger.error('Redis批量标记失败，降级到内存缓存:', error);
@@ -158,7 +263,27 @@ export class DeduplicationFilter {
     }
     
     // 降级到内存缓存
-    cache.addBatch(noticeIds);
+    cache.addBatch(noticeIds.map(id => this.cacheKey(id, subscriberId)));
+  }
+
+  /**
+   * 批量标记公告为已处理但未推送（Redis优先），记录被过滤的阶段和原因；
+   * 之后不再作为新公告处理，但不计为已发送
+   */
+  static async markBatchAsProcessed(outcomes: { [noticeId: string]: NoticeOutcome }, subscriberId?: string): Promise<void> {
+    if (isRedisAvailable && redisService) {
+      try {
+        await redisService.markBatchAsProcessed(outcomes, subscriberId);
+        return;
+      } catch (error: any) {
+        logger.error('Redis批量标记失败，降级到内存缓存:', error);
+      }
+    }
+
+    // 降级到内存缓存
+    for (const [id, outcome] of Object.entries(outcomes)) {
+      cache.add(this.processedCacheKey(id, subscriberId), JSON.stringify(outcome));
+    }
   }
 
   /**
@@ -224,18 +349,21 @@ export class DeduplicationFilter {
    * 移除批次内重复项
    */
   private static removeDuplicatesWithinBatch(notices: Notice[]): Notice[] {
-    const seen = new Set<string>();
+    const seen = new Map<string, Notice>();
     const uniqueNotices: Notice[] = [];
 
     for (const notice of notices) {
       // 使用多个字段组合生成去重键
       const dedupeKey = this.generateDedupeKey(notice);
+      const first = seen.get(dedupeKey);
       
-      if (!seen.has(dedupeKey)) {
-        seen.add(dedupeKey);
+      if (!first) {
+        seen.set(dedupeKey, notice);
         uniqueNotices.push(notice);
+        FilterTrace.pass(notice, 'batch-duplicate');
       } else {
         logger.debug(`发现重复公告（批次内）: ${notice.title}`);
+        FilterTrace.drop(notice, 'batch-duplicate', `与同批次的公告重复: ${first.title}（${first.url}）`);
       }
     }
 
@@ -250,11 +378,11 @@ export class DeduplicationFilter {
   /**
    * 过滤新公告（排除缓存中已存在的）
    */
-  private static filterNewNotices(notices: Notice[]): Notice[] {
+  private static filterNewNotices(notices: Notice[], subscriberId?: string): Notice[] {
     const newNotices: Notice[] = [];
 
     for (const notice of notices) {
-      if (!cache.has(notice.id)) {
+      if (!cache.has(this.cacheKey(notice.id, subscriberId)) && !cache.has(this.processedCacheKey(notice.id, subscriberId))) {
         newNotices.push(notice);
       } else {
         logger.debug(`发现重复公告（缓存中）: ${notice.title}`);
@@ -270,17 +398,17 @@ export class DeduplicationFilter {
   }
 
   /**
-   * 更新缓存
+   * 内存缓存中的已发送记录键（订阅者的记录带订阅者ID前缀）
    */
-  private static updateCache(notices: Notice[]): void {
-    if (notices.length === 0) {
-      return;
-    }
+  private static cacheKey(noticeId: string, subscriberId?: string): string {
+    return subscriberId ? `${subscriberId}:${noticeId}` : noticeId;
+  }
 
-    const ids = notices.map(notice => notice.id);
-    cache.addBatch(ids);
-    
-    logger.info(`缓存更新完成，新增 ${ids.length} 条记录`);
+  /**
+   * 内存缓存中的已处理记录键
+   */
+  private static processedCacheKey(noticeId: string, subscriberId?: string): string {
+    return `processed:${this.cacheKey(noticeId, subscriberId)}`;
   }
 
   /**
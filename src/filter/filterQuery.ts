@@ -0,0 +1,223 @@
+import { CrawlerError } from '../types';
+
+// 可限定的字段；未限定时匹配标题、摘要和正文
+export type QueryField = 'title' | 'summary' | 'content' | 'category' | 'district' | 'housingType' | 'stage';
+
+// 表达式语法树
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'term'; field?: QueryField; text?: string; regex?: RegExp };
+
+// 词法单元
+interface Token {
+  type: 'word' | 'phrase' | 'regex' | 'field' | 'and' | 'or' | 'not' | 'lparen' | 'rparen' | 'end';
+  value: string;
+  position: number;     // 在表达式中的起始位置（从 0 开始）
+  regex?: RegExp;
+}
+
+/**
+ * 过滤表达式
+ * 语法：AND / OR / NOT（大写）、括号分组、相邻的词默认为 AND，
+ * 字段限定如 title:人才房、title:(人才房 OR 安居房)，双引号短语，/正则/flags
+ * 例：(人才房 OR 安居房) AND 选房 AND NOT 南山
+ */
+export class FilterQuery {
+  static readonly FIELDS: QueryField[] = ['title', 'summary', 'content', 'category', 'district', 'housingType', 'stage'];
+
+  private tokens: Token[] = [];
+  private index = 0;
+
+  private constructor(private readonly expression: string) {}
+
+  /**
+   * 解析表达式，语法错误时抛出 CrawlerError（消息中标出出错位置）
+   */
+  static parse(expression: string): QueryNode {
+    const query = new FilterQuery(expression);
+    query.tokens = query.tokenize();
+
+    const node = query.parseOr();
+    const next = query.peek();
+    if (next.type === 'rparen') {
+      query.fail('多余的右括号', next.position);
+    }
+    if (next.type !== 'end') {
+      query.fail(`无法识别的内容 "${next.value}"`, next.position);
+    }
+
+    return node;
+  }
+
+  /**
+   * 计算表达式，getText 返回指定字段（未指定时为全文）的文本
+   */
+  static evaluate(node: QueryNode, getText: (field?: QueryField) => string): boolean {
+    switch (node.type) {
+      case 'and':
+        return node.children.every(child => this.evaluate(child, getText));
+      case 'or':
+        return node.children.some(child => this.evaluate(child, getText));
+      case 'not':
+        return !this.evaluate(node.child, getText);
+      case 'term': {
+        const text = getText(node.field);
+        return node.regex ? node.regex.test(text) : text.toLowerCase().includes(node.text!.toLowerCase());
+      }
+    }
+  }
+
+  private parseOr(field?: QueryField): QueryNode {
+    const children = [this.parseAnd(field)];
+    while (this.peek().type === 'or') {
+      this.index++;
+      children.push(this.parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(field?: QueryField): QueryNode {
+    const children = [this.parseUnary(field)];
+    for (;;) {
+      const next = this.peek();
+      if (next.type === 'and') {
+        this.index++;
+      } else if (next.type === 'end' || next.type === 'or' || next.type === 'rparen') {
+        break;
+      }
+      // 相邻的词之间省略了 AND
+      children.push(this.parseUnary(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(field?: QueryField): QueryNode {
+    if (this.peek().type === 'not') {
+      this.index++;
+      return { type: 'not', child: this.parseUnary(field) };
+    }
+    return this.parsePrimary(field);
+  }
+
+  private parsePrimary(field?: QueryField): QueryNode {
+    const token = this.tokens[this.index++];
+
+    switch (token.type) {
+      case 'field':
+        if (this.peek().type === 'end') {
+          this.fail(`字段 ${token.value}: 后缺少关键词`, token.position);
+        }
+        return this.parsePrimary(token.value as QueryField);
+      case 'lparen': {
+        if (this.peek().type === 'rparen') {
+          this.fail('括号内为空', token.position);
+        }
+        const node = this.parseOr(field);
+        if (this.peek().type !== 'rparen') {
+          this.fail('括号未闭合，缺少右括号', token.position);
+        }
+        this.index++;
+        return node;
+      }
+      case 'word':
+      case 'phrase':
+        return { type: 'term', field, text: token.value };
+      case 'regex':
+        return { type: 'term', field, regex: token.regex };
+      case 'end':
+        return this.fail('表达式不完整，缺少关键词', token.position);
+      case 'rparen':
+        return this.fail('多余的右括号', token.position);
+      default:
+        return this.fail(`${token.value} 前后缺少关键词`, token.position);
+    }
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = [];
+    const source = this.expression;
+    let position = 0;
+
+    while (position < source.length) {
+      const char = source[position];
+
+      if (/\s/.test(char)) {
+        position++;
+      } else if (char === '(' || char === ')') {
+        tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position });
+        position++;
+      } else if (char === '"') {
+        const end = this.findClosing(position, '"');
+        const value = source.slice(position + 1, end).replace(/\\(.)/g, '$1');
+        if (value.length === 0) {
+          this.fail('引号内为空', position);
+        }
+        tokens.push({ type: 'phrase', value, position });
+        position = end + 1;
+      } else if (char === '/') {
+        const end = this.findClosing(position, '/');
+        const flags = source.slice(end + 1).match(/^[a-z]*/)![0];
+        const pattern = source.slice(position + 1, end);
+        let regex: RegExp;
+        try {
+          regex = new RegExp(pattern, flags);
+        } catch (error: any) {
+          return this.fail(`正则表达式无效: ${error.message}`, position);
+        }
+        if (regex.global || regex.sticky) {
+          this.fail('正则表达式不支持 g、y 标志', position);
+        }
+        tokens.push({ type: 'regex', value: source.slice(position, end + 1 + flags.length), position, regex });
+        position = end + 1 + flags.length;
+      } else {
+        const fieldMatch = source.slice(position).match(/^([A-Za-z]+):/);
+        if (fieldMatch) {
+          if (!FilterQuery.FIELDS.includes(fieldMatch[1] as QueryField)) {
+            this.fail(`未知字段 "${fieldMatch[1]}"（可选 ${FilterQuery.FIELDS.join('、')}）`, position);
+          }
+          tokens.push({ type: 'field', value: fieldMatch[1], position });
+          position += fieldMatch[0].length;
+          continue;
+        }
+
+        const value = source.slice(position).match(/^[^\s()"]+/)![0];
+        const operator = { AND: 'and', OR: 'or', NOT: 'not' }[value] as Token['type'] | undefined;
+        tokens.push({ type: operator || 'word', value, position });
+        position += value.length;
+      }
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length });
+    return tokens;
+  }
+
+  /**
+   * 查找引号或正则的结束位置（跳过反斜杠转义）
+   */
+  private findClosing(start: number, quote: string): number {
+    for (let position = start + 1; position < this.expression.length; position++) {
+      if (this.expression[position] === '\\') {
+        position++;
+      } else if (this.expression[position] === quote) {
+        return position;
+      }
+    }
+    return this.fail(quote === '"' ? '引号未闭合' : '正则表达式缺少结束的 /', start);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private fail(reason: string, position: number): never {
+    // 在表达式下方用 ^ 标出出错位置（中文等全角字符占两列）
+    const width = [...this.expression.slice(0, position)].reduce((sum, char) => sum + (/[\u2e80-\uffff]/.test(char) ? 2 : 1), 0);
+    const pointer = ' '.repeat(width) + '^';
+    throw new CrawlerError(
+      `${reason}（第 ${position + 1} 个字符）\n  ${this.expression}\n  ${pointer}`,
+      'INVALID_FILTER_QUERY',
+      { expression: this.expression, position }
+    );
+  }
+}
@@ -0,0 +1,154 @@
+import { Notice } from '../types';
+import { config } from '../config/config';
+import { redisService } from '../services/redisService';
+import { FilterTrace } from '../services/filterTrace';
+import { NoticeRelations } from '../services/noticeRelations';
+import { logger } from '../utils/logger';
+import { SimHash } from '../utils/simHash';
+
+// 已推送公告的指纹
+interface FingerprintRecord {
+  noticeId: string;
+  title: string;
+  url: string;
+  titleHash: string;
+  contentHash?: string;   // 没有正文（未补全详情）时为空
+  sentAt: string;
+}
+
+/**
+ * 近似重复检测
+ * 网站常以新URL重新发布同一公告（标题加 "(更新)"、换前缀等），公告ID不同但内容相同。
+ * 将新公告的标题和正文指纹与近期推送过的公告比较，标题相近且正文相近（任一方没有正文时只比较标题）即为近似重复
+ */
+export class NearDuplicateFilter {
+  private static readonly STORE_KEY = 'fingerprints';
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  // 参与指纹计算的正文长度（附件文本可能很长）
+  private static readonly MAX_CONTENT_LENGTH = 5000;
+
+  // 重新发布时附加的标注，如 （更新）、【重发】
+  private static readonly REPOST_MARK = /[（(【\[](?:更新|最新|重发|重新发布|再次发布|修订版?)[）)】\]]/g;
+
+  private static memory: FingerprintRecord[] = [];
+
+  /**
+   * 检测近似重复：按配置过滤掉，或标注疑似重复的原公告
+   */
+  static async apply(notices: Notice[]): Promise<Notice[]> {
+    if (!config.nearDuplicate.enabled || notices.length === 0) {
+      return notices;
+    }
+
+    const known = await this.getRecords();
+    const kept: Notice[] = [];
+
+    for (const notice of notices) {
+      // 已记录过指纹的公告本身就是原公告（如推送给新增的订阅者）
+      if (known.some(record => record.noticeId === notice.id)) {
+        kept.push(notice);
+        continue;
+      }
+
+      // 更正、补充等公告与原公告标题相近但内容不同，交给关联检测处理
+      const relationType = NoticeRelations.getRelationType(notice.title);
+      if (relationType) {
+        FilterTrace.pass(notice, 'near-duplicate', `${relationType}公告，不做近似重复检测`);
+        kept.push(notice);
+        continue;
+      }
+
+      const record = this.fingerprint(notice);
+      const original = this.findOriginal(record, known);
+      // 同一批次内后出现的近似公告也按重复处理
+      known.push(record);
+
+      if (!original) {
+        FilterTrace.pass(notice, 'near-duplicate');
+        kept.push(notice);
+        continue;
+      }
+
+      if (config.nearDuplicate.action === 'suppress') {
+        logger.info(`近似重复，不推送: ${notice.title}（原公告: ${original.title}）`);
+        FilterTrace.drop(notice, 'near-duplicate', `与已推送的公告近似重复: ${original.title}（${original.url}）`);
+        continue;
+      }
+
+      logger.info(`近似重复，标注后推送: ${notice.title}（原公告: ${original.title}）`);
+      FilterTrace.pass(notice, 'near-duplicate', `标注疑似重复: ${original.title}`);
+      kept.push({ ...notice, duplicateOf: { id: original.noticeId, title: original.title, url: original.url } });
+    }
+
+    return kept;
+  }
+
+  /**
+   * 记录已推送公告的指纹
+   */
+  static async record(notices: Notice[]): Promise<void> {
+    if (!config.nearDuplicate.enabled || notices.length === 0) {
+      return;
+    }
+
+    try {
+      const ids = new Set(notices.map(notice => notice.id));
+      const records = (await this.getRecords()).filter(record => !ids.has(record.noticeId));
+      records.push(...notices.map(notice => this.fingerprint(notice)));
+      await this.saveRecords(records);
+    } catch (error: any) {
+      logger.warn(`记录公告指纹失败: ${error.message}`);
+    }
+  }
+
+  private static findOriginal(record: FingerprintRecord, known: FingerprintRecord[]): FingerprintRecord | undefined {
+    const maxDistance = config.nearDuplicate.maxDistance;
+
+    return known.find(other =>
+      SimHash.distance(other.titleHash, record.titleHash) <= maxDistance &&
+      (!other.contentHash || !record.contentHash || SimHash.distance(other.contentHash, record.contentHash) <= maxDistance)
+    );
+  }
+
+  private static fingerprint(notice: Notice): FingerprintRecord {
+    const content = (notice.content || '').slice(0, this.MAX_CONTENT_LENGTH).trim();
+
+    return {
+      noticeId: notice.id,
+      title: notice.title,
+      url: notice.url,
+      titleHash: SimHash.compute(this.normalizeTitle(notice.title)),
+      contentHash: content ? SimHash.compute(content) : undefined,
+      sentAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * 去掉发布机构前缀（"…关于"）和重新发布的标注
+   */
+  private static normalizeTitle(title: string): string {
+    return title.replace(/^.*?关于/, '').replace(this.REPOST_MARK, '');
+  }
+
+  /**
+   * 近期的指纹记录（已去除超过比较天数的记录）
+   */
+  private static async getRecords(): Promise<FingerprintRecord[]> {
+    let records = this.memory;
+    if (redisService.isReady()) {
+      records = (await redisService.getJson<FingerprintRecord[]>(this.STORE_KEY)) || records;
+    }
+
+    const cutoff = Date.now() - config.nearDuplicate.windowDays * this.DAY_MS;
+    return records.filter(record => new Date(record.sentAt).getTime() >= cutoff);
+  }
+
+  private static async saveRecords(records: FingerprintRecord[]): Promise<void> {
+    this.memory = records;
+
+    if (redisService.isReady()) {
+      await redisService.setJson(this.STORE_KEY, records, config.nearDuplicate.windowDays * 24 * 60 * 60);
+    }
+  }
+}
@@ -1,11 +1,22 @@
 import axios from 'axios';
 import crypto from 'crypto';
-import { Notice, PushResult, FeishuError, CategorizedNotices } from '../types';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Notice, PushResult, FeishuError, CategorizedNotices, DriftReport, NoticeUpdate, Subscriber, SubscriberTarget } from '../types';
 import { config } from '../config/config';
 import { FeishuConfig } from '../config/feishu';
 import { MessageTemplate } from './messageTemplate';
 import { logger } from '../utils/logger';
 import { CategoryService } from '../services/categoryService';
+import { NoticeRelations } from '../services/noticeRelations';
+import { NetworkAgents } from '../utils/network';
+import { ReplaySource } from '../crawler/replaySource';
+
+// Bot API 推送目标（群聊或用户）
+type BotTarget = Extract<SubscriberTarget, { type: 'chat_id' | 'open_id' }>;
+
+// Webhook 推送目标
+type WebhookTarget = Extract<SubscriberTarget, { type: 'webhook' }>;
 
 /**
  * 飞书机器人推送器
@@ -13,21 +24,23 @@ import { CategoryService } from '../services/categoryService';
 export class FeishuBot {
   private static readonly MAX_RETRIES = 3;
   private static readonly RETRY_DELAY = 1000; // 1秒
+  private static replayMessageCount = 0;
 
   /**
-   * 推送通知公告
+   * 推送通知公告（指定订阅者时推送到订阅者，否则推送到全局配置的群）
    */
-  static async pushNotices(notices: Notice[]): Promise<PushResult> {
+  static async pushNotices(notices: Notice[], subscriber?: Subscriber): Promise<PushResult> {
     try {
-      logger.info(`开始推送 ${notices.length} 条公告到飞书`);
+      logger.info(`开始推送 ${notices.length} 条公告到飞书${this.describe(subscriber)}`);
 
-      if (FeishuConfig.shouldUseBotApi()) {
-        return await this.pushViaBotApi(notices);
-      } else if (FeishuConfig.shouldUseWebhook()) {
-        return await this.pushViaWebhook(notices);
-      } else {
-        throw new FeishuError('飞书配置错误：未配置有效的推送方式', 'CONFIG_ERROR');
+      if (ReplaySource.isEnabled()) {
+        return await this.renderForReplay(this.replayLabel('notices', subscriber), MessageTemplate.createInteractiveCard(notices));
       }
+
+      const target = this.getTarget(subscriber);
+      return target.type === 'webhook'
+        ? await this.pushViaWebhook(notices, target)
+        : await this.pushViaBotApi(notices, target);
     } catch (error: any) {
       logger.error('推送失败:', error);
       return {
@@ -41,7 +54,7 @@ export class FeishuBot {
   /**
    * 通过 Bot API 推送
    */
-  private static async pushViaBotApi(notices: Notice[]): Promise<PushResult> {
+  private static async pushViaBotApi(notices: Notice[], target: BotTarget): Promise<PushResult> {
     const client = FeishuConfig.getClient();
     if (!client) {
       throw new FeishuError('飞书客户端未初始化', 'CLIENT_ERROR');
@@ -54,10 +67,10 @@ export class FeishuBot {
       // 发送消息
       const response = await client.im.message.create({
         params: {
-          receive_id_type: 'chat_id',
+          receive_id_type: target.type,
         },
         data: {
-          receive_id: config.feishu.chatId!,
+          receive_id: target.id,
           msg_type: message.msg_type,
           content: JSON.stringify(message.msg_type === 'interactive' ? message.card : message.content),
         },
@@ -65,10 +78,12 @@ export class FeishuBot {
 
       if (response.code === 0) {
         logger.info(`Bot API 推送成功，消息ID: ${response.data?.message_id}`);
+        await this.followUpBotPush(notices, target, response.data?.message_id);
         return {
           success: true,
           message: '推送成功',
           timestamp: new Date().toISOString(),
+          messageId: response.data?.message_id,
         };
       } else {
         throw new FeishuError(`Bot API 推送失败: ${response.msg}`, 'API_ERROR', response);
@@ -82,11 +97,7 @@ export class FeishuBot {
   /**
    * 通过 Webhook 推送
    */
-  private static async pushViaWebhook(notices: Notice[]): Promise<PushResult> {
-    if (!config.feishu.webhookUrl) {
-      throw new FeishuError('Webhook URL 未配置', 'CONFIG_ERROR');
-    }
-
+  private static async pushViaWebhook(notices: Notice[], target: WebhookTarget): Promise<PushResult> {
     let lastError: any;
     
     for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
@@ -95,12 +106,13 @@ export class FeishuBot {
         const message = MessageTemplate.createWebhookMessage(notices);
         
         // 添加签名（如果有密钥）
-        if (config.feishu.webhookSecret) {
-          this.addWebhookSignature(message, config.feishu.webhookSecret);
+        if (target.secret) {
+          this.addWebhookSignature(message, target.secret);
         }
 
         // 发送请求
-        const response = await axios.post(config.feishu.webhookUrl, message, {
+        const response = await axios.post(target.url, message, {
+          ...NetworkAgents.forFeishu(target.url),
           headers: {
             'Content-Type': 'application/json',
           },
@@ -151,12 +163,10 @@ export class FeishuBot {
       
       const errorMessage = MessageTemplate.createErrorMessage(error, details);
       
-      if (FeishuConfig.shouldUseBotApi()) {
-        return await this.pushSingleMessageViaBotApi(errorMessage);
-      } else if (FeishuConfig.shouldUseWebhook()) {
-        return await this.pushSingleMessageViaWebhook(errorMessage);
+      if (ReplaySource.isEnabled()) {
+        return await this.renderForReplay('error', errorMessage);
       } else {
-        throw new FeishuError('飞书配置错误：未配置有效的推送方式', 'CONFIG_ERROR');
+        return await this.pushSingleMessage(errorMessage);
       }
     } catch (pushError: any) {
       logger.error('推送错误消息失败:', pushError);
@@ -168,6 +178,54 @@ export class FeishuBot {
     }
   }
 
+  /**
+   * 推送解析漂移告警（与系统异常通知分开）
+   */
+  static async pushDriftAlert(report: DriftReport): Promise<PushResult> {
+    try {
+      logger.info(`推送解析漂移告警到飞书: ${report.sourceId}`);
+
+      const alertMessage = MessageTemplate.createDriftAlertMessage(report);
+
+      if (ReplaySource.isEnabled()) {
+        return await this.renderForReplay('drift', alertMessage);
+      } else {
+        return await this.pushSingleMessage(alertMessage);
+      }
+    } catch (error: any) {
+      logger.error('推送解析漂移告警失败:', error);
+      return {
+        success: false,
+        message: `推送解析漂移告警失败: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
+  /**
+   * 推送公告更新（推送到接收过原公告的订阅者）
+   */
+  static async pushNoticeUpdate(update: NoticeUpdate, subscriber?: Subscriber): Promise<PushResult> {
+    try {
+      logger.info(`推送公告更新到飞书${this.describe(subscriber)}: ${update.notice.title}`);
+
+      const updateMessage = MessageTemplate.createNoticeUpdateMessage(update);
+
+      if (ReplaySource.isEnabled()) {
+        return await this.renderForReplay(this.replayLabel('update', subscriber), updateMessage);
+      } else {
+        return await this.pushSingleMessage(updateMessage, this.getTarget(subscriber));
+      }
+    } catch (error: any) {
+      logger.error('推送公告更新失败:', error);
+      return {
+        success: false,
+        message: `推送公告更新失败: ${error.message}`,
+        timestamp: new Date().toISOString(),
+      };
+    }
+  }
+
   /**
    * 推送系统状态
    */
@@ -183,12 +241,10 @@ export class FeishuBot {
       
       const statusMessage = MessageTemplate.createStatusMessage(status);
       
-      if (FeishuConfig.shouldUseBotApi()) {
-        return await this.pushSingleMessageViaBotApi(statusMessage);
-      } else if (FeishuConfig.shouldUseWebhook()) {
-        return await this.pushSingleMessageViaWebhook(statusMessage);
+      if (ReplaySource.isEnabled()) {
+        return await this.renderForReplay('status', statusMessage);
       } else {
-        throw new FeishuError('飞书配置错误：未配置有效的推送方式', 'CONFIG_ERROR');
+        return await this.pushSingleMessage(statusMessage);
       }
     } catch (error: any) {
       logger.error('推送状态消息失败:', error);
@@ -200,10 +256,19 @@ export class FeishuBot {
     }
   }
 
+  /**
+   * 推送单条消息到推送目标（未指定时为全局配置的群）
+   */
+  private static async pushSingleMessage(message: any, target: SubscriberTarget = this.getTarget()): Promise<PushResult> {
+    return target.type === 'webhook'
+      ? this.pushSingleMessageViaWebhook(message, target)
+      : this.pushSingleMessageViaBotApi(message, target);
+  }
+
   /**
    * 通过 Bot API 推送单条消息
    */
-  private static async pushSingleMessageViaBotApi(message: any): Promise<PushResult> {
+  private static async pushSingleMessageViaBotApi(message: any, target: BotTarget): Promise<PushResult> {
     const client = FeishuConfig.getClient();
     if (!client) {
       throw new FeishuError('飞书客户端未初始化', 'CLIENT_ERROR');
@@ -211,10 +276,10 @@ export class FeishuBot {
 
     const response = await client.im.message.create({
       params: {
-        receive_id_type: 'chat_id',
+        receive_id_type: target.type,
       },
       data: {
-        receive_id: config.feishu.chatId!,
+        receive_id: target.id,
         msg_type: message.msg_type,
         content: JSON.stringify(message.msg_type === 'interactive' ? message.card : message.content),
       },
@@ -225,6 +290,7 @@ export class FeishuBot {
         success: true,
         message: '推送成功',
         timestamp: new Date().toISOString(),
+        messageId: response.data?.message_id,
       };
     } else {
       throw new FeishuError(`Bot API 推送失败: ${response.msg}`, 'API_ERROR', response);
@@ -232,19 +298,58 @@ export class FeishuBot {
   }
 
   /**
-   * 通过 Webhook 推送单条消息
+   * Bot API 推送公告后：记录公告所在的消息，并将更正、补充等公告回复到原公告消息的话题中
+   * （Webhook 无法获取消息ID，不支持回复）
    */
-  private static async pushSingleMessageViaWebhook(message: any): Promise<PushResult> {
-    if (!config.feishu.webhookUrl) {
-      throw new FeishuError('Webhook URL 未配置', 'CONFIG_ERROR');
+  private static async followUpBotPush(notices: Notice[], target: BotTarget, messageId?: string): Promise<void> {
+    if (!messageId) {
+      return;
+    }
+
+    const targetKey = `${target.type}:${target.id}`;
+    await NoticeRelations.recordMessage(notices, targetKey, messageId);
+    if (!config.relation.replyInThread) {
+      return;
     }
 
+    const client = FeishuConfig.getClient();
+    for (const notice of notices) {
+      const originalMessageId = notice.relatedTo && await NoticeRelations.getMessageId(notice.relatedTo.original.id, targetKey);
+      if (!client || !originalMessageId) {
+        continue;
+      }
+
+      try {
+        const message = MessageTemplate.createSingleNoticeMessage(notice);
+        const response = await client.im.message.reply({
+          path: { message_id: originalMessageId },
+          data: {
+            msg_type: message.msg_type,
+            content: JSON.stringify(message.card),
+            reply_in_thread: true,
+          },
+        });
+        if (response.code !== 0) {
+          throw new Error(response.msg);
+        }
+        logger.info(`已将${notice.relatedTo!.type}公告回复到原公告消息: ${notice.title}`);
+      } catch (error: any) {
+        logger.warn(`回复原公告消息失败: ${notice.title} - ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * 通过 Webhook 推送单条消息
+   */
+  private static async pushSingleMessageViaWebhook(message: any, target: WebhookTarget): Promise<PushResult> {
     // 添加签名（如果有密钥）
-    if (config.feishu.webhookSecret) {
-      this.addWebhookSignature(message, config.feishu.webhookSecret);
+    if (target.secret) {
+      this.addWebhookSignature(message, target.secret);
     }
 
-    const response = await axios.post(config.feishu.webhookUrl, message, {
+    const response = await axios.post(target.url, message, {
+      ...NetworkAgents.forFeishu(target.url),
       headers: {
         'Content-Type': 'application/json',
       },
@@ -268,6 +373,14 @@ export class FeishuBot {
   static async testConnection(): Promise<PushResult> {
     try {
       logger.info('测试飞书推送连接');
+
+      if (ReplaySource.isEnabled()) {
+        return {
+          success: true,
+          message: '回放模式，跳过连接测试',
+          timestamp: new Date().toISOString(),
+        };
+      }
       
       const testMessage = {
         msg_type: 'text',
@@ -276,13 +389,7 @@ export class FeishuBot {
         }
       };
 
-      if (FeishuConfig.shouldUseBotApi()) {
-        return await this.pushSingleMessageViaBotApi(testMessage);
-      } else if (FeishuConfig.shouldUseWebhook()) {
-        return await this.pushSingleMessageViaWebhook(testMessage);
-      } else {
-        throw new FeishuError('飞书配置错误：未配置有效的推送方式', 'CONFIG_ERROR');
-      }
+      return await this.pushSingleMessage(testMessage);
     } catch (error: any) {
       logger.error('测试推送连接失败:', error);
       return {
@@ -293,6 +400,47 @@ export class FeishuBot {
     }
   }
 
+  /**
+   * 回放模式：渲染消息但不发送，写入输出目录或日志
+   */
+  private static async renderForReplay(label: string, message: any): Promise<PushResult> {
+    const content = JSON.stringify(message, null, 2);
+
+    if (config.replay.outputDir) {
+      const fileName = `${String(++this.replayMessageCount).padStart(3, '0')}-${label}.json`;
+      await fs.promises.mkdir(config.replay.outputDir, { recursive: true });
+      await fs.promises.writeFile(path.join(config.replay.outputDir, fileName), content);
+      logger.info(`回放模式：消息已写入 ${path.join(config.replay.outputDir, fileName)}`);
+    } else {
+      logger.info(`回放模式：渲染消息 (${label})\n${content}`);
+    }
+
+    return {
+      success: true,
+      message: '回放模式，消息未发送',
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * 推送目标：订阅者的目标，未指定订阅者时为全局配置的群
+   */
+  private static getTarget(subscriber?: Subscriber): SubscriberTarget {
+    const target = subscriber ? subscriber.target : FeishuConfig.getDefaultTarget();
+    if (!target) {
+      throw new FeishuError('飞书配置错误：未配置有效的推送方式', 'CONFIG_ERROR');
+    }
+    return target;
+  }
+
+  private static replayLabel(label: string, subscriber?: Subscriber): string {
+    return subscriber ? `${subscriber.id}-${label}` : label;
+  }
+
+  private static describe(subscriber?: Subscriber): string {
+    return subscriber ? ` [${subscriber.name}]` : '';
+  }
+
   /**
    * 延迟函数
    */
@@ -303,9 +451,9 @@ export class FeishuBot {
   /**
    * 推送分类通知公告（单条消息包含所有分类）
    */
-  static async pushCategorizedNotices(notices: Notice[]): Promise<PushResult> {
+  static async pushCategorizedNotices(notices: Notice[], subscriber?: Subscriber): Promise<PushResult> {
     try {
-      logger.info(`开始推送 ${notices.length} 条分类公告到飞书`);
+      logger.info(`开始推送 ${notices.length} 条分类公告到飞书${this.describe(subscriber)}`);
 
       if (notices.length === 0) {
         return {
@@ -318,13 +466,14 @@ export class FeishuBot {
       // 对公告进行分类
       const categorized = CategoryService.categorizeNotices(notices);
       
-      if (FeishuConfig.shouldUseBotApi()) {
-        return await this.pushCategorizedViaBotApi(categorized);
-      } else if (FeishuConfig.shouldUseWebhook()) {
-        return await this.pushCategorizedViaWebhook(categorized);
-      } else {
-        throw new FeishuError('飞书配置错误：未配置有效的推送方式', 'CONFIG_ERROR');
+      if (ReplaySource.isEnabled()) {
+        return await this.renderForReplay(this.replayLabel('categorized', subscriber), MessageTemplate.createCategorizedInteractiveCard(categorized));
       }
+
+      const target = this.getTarget(subscriber);
+      return target.type === 'webhook'
+        ? await this.pushCategorizedViaWebhook(categorized, target)
+        : await this.pushCategorizedViaBotApi(categorized, target);
     } catch (error: any) {
       logger.error('推送分类公告失败:', error);
       return {
@@ -338,9 +487,9 @@ export class FeishuBot {
   /**
    * 按分类分别推送公告（每个分类一条消息）
    */
-  static async pushNoticesByCategory(notices: Notice[]): Promise<PushResult[]> {
+  static async pushNoticesByCategory(notices: Notice[], subscriber?: Subscriber): Promise<PushResult[]> {
     try {
-      logger.info(`开始按分类推送 ${notices.length} 条公告到飞书`);
+      logger.info(`开始按分类推送 ${notices.length} 条公告到飞书${this.describe(subscriber)}`);
 
       if (notices.length === 0) {
         return [{
@@ -352,6 +501,7 @@ export class FeishuBot {
 
       // 对公告进行分类
       const categorized = CategoryService.categorizeNotices(notices);
+      const target = ReplaySource.isEnabled() ? undefined : this.getTarget(subscriber);
       const results: PushResult[] = [];
 
       // 按分类依次推送
@@ -364,22 +514,21 @@ export class FeishuBot {
           const message = MessageTemplate.createNotificationMessage(categoryNotices);
           if (!message) continue;
 
-          let result: PushResult;
-          if (FeishuConfig.shouldUseBotApi()) {
-            result = await this.pushSingleMessageViaBotApi(message);
-          } else if (FeishuConfig.shouldUseWebhook()) {
-            result = await this.pushSingleMessageViaWebhook(message);
-          } else {
-            throw new FeishuError('飞书配置错误：未配置有效的推送方式', 'CONFIG_ERROR');
+          const result = target
+            ? await this.pushSingleMessage(message, target)
+            : await this.renderForReplay(this.replayLabel(`category-${category}`, subscriber), message);
+          if (target && target.type !== 'webhook') {
+            await this.followUpBotPush(categoryNotices, target, result.messageId);
           }
 
           results.push({
             ...result,
-            message: `${category}: ${result.message}`
+            message: `${category}: ${result.message}`,
+            noticeIds: categoryNotices.map(notice => notice.id),
           });
 
           // 推送间隔，避免频率限制
-          if (Object.keys(categorized).length > 1) {
+          if (Object.keys(categorized).length > 1 && !ReplaySource.isEnabled()) {
             await this.sleep(1000);
           }
 
@@ -389,6 +538,7 @@ export class FeishuBot {
             success: false,
             message: `${category}: ${error.message}`,
             timestamp: new Date().toISOString(),
+            noticeIds: categoryNotices.map(notice => notice.id),
           });
         }
       }
@@ -407,7 +557,7 @@ export class FeishuBot {
   /**
    * 通过 Bot API 推送分类公告
    */
-  private static async pushCategorizedViaBotApi(categorized: CategorizedNotices): Promise<PushResult> {
+  private static async pushCategorizedViaBotApi(categorized: CategorizedNotices, target: BotTarget): Promise<PushResult> {
     const client = FeishuConfig.getClient();
     if (!client) {
       throw new FeishuError('飞书客户端未初始化', 'CLIENT_ERROR');
@@ -420,10 +570,10 @@ export class FeishuBot {
       // 发送消息
       const response = await client.im.message.create({
         params: {
-          receive_id_type: 'chat_id',
+          receive_id_type: target.type,
         },
         data: {
-          receive_id: config.feishu.chatId!,
+          receive_id: target.id,
           msg_type: message.msg_type,
           content: JSON.stringify(message.msg_type === 'interactive' ? message.card : message.content),
         },
@@ -431,10 +581,12 @@ export class FeishuBot {
 
       if (response.code === 0) {
         logger.info(`Bot API 分类推送成功，消息ID: ${response.data?.message_id}`);
+        await this.followUpBotPush(Object.values(categorized).flat(), target, response.data?.message_id);
         return {
           success: true,
           message: '分类推送成功',
           timestamp: new Date().toISOString(),
+          messageId: response.data?.message_id,
         };
       } else {
         throw new FeishuError(`Bot API 分类推送失败: ${response.msg}`, 'API_ERROR', response);
@@ -448,11 +600,7 @@ export class FeishuBot {
   /**
    * 通过 Webhook 推送分类公告
    */
-  private static async pushCategorizedViaWebhook(categorized: CategorizedNotices): Promise<PushResult> {
-    if (!config.feishu.webhookUrl) {
-      throw new FeishuError('Webhook URL 未配置', 'CONFIG_ERROR');
-    }
-
+  private static async pushCategorizedViaWebhook(categorized: CategorizedNotices, target: WebhookTarget): Promise<PushResult> {
     let lastError: any;
     
     for (let attempt = 1; attempt <= this.MAX_RETRIES; attempt++) {
@@ -461,12 +609,13 @@ export class FeishuBot {
         const message = MessageTemplate.createCategorizedInteractiveCard(categorized);
         
         // 添加签名（如果有密钥）
-        if (config.feishu.webhookSecret) {
-          this.addWebhookSignature(message, config.feishu.webhookSecret);
+        if (target.secret) {
+          this.addWebhookSignature(message, target.secret);
         }
 
         // 发送请求
-        const response = await axios.post(config.feishu.webhookUrl, message, {
+        const response = await axios.post(target.url, message, {
+          ...NetworkAgents.forFeishu(target.url),
           headers: {
             'Content-Type': 'application/json',
           },
@@ -1,4 +1,6 @@
-import { Notice, CategorizedNotices } from '../types';
+import { Notice, NoticeAttachment, CategorizedNotices, DriftReport, NoticeUpdate, TextChange } from '../types';
+import { config } from '../config/config';
+import { ShanghaiTime } from '../utils/shanghaiTime';
 
 /**
  * 飞书消息模板 - 简化版
@@ -13,9 +15,26 @@ export class MessageTemplate {
     TIME: '🕐',
     CHART: '📊',
     WARNING: '⚠️',
-    INFO: 'ℹ️'
+    INFO: 'ℹ️',
+    ATTACHMENT: '📎',
+    PIN: '📍',
+    LINK: '🔗'
   } as const;
 
+  // 单条公告最多展示的附件按钮数量（其余附件以 "共 N 个附件" 按钮链接到公告页）
+  private static readonly MAX_ATTACHMENT_BUTTONS = 5;
+
+  // 单条公告最多展示的关键时间数量
+  private static readonly MAX_KEY_DATES = 2;
+
+  // 表格预览最多展示的列数和单元格字数
+  private static readonly MAX_TABLE_COLUMNS = 5;
+  private static readonly MAX_TABLE_CELL_LENGTH = 12;
+
+  // 内容差异中每处变化最多展示的片段数和单个片段的字数
+  private static readonly MAX_CHANGE_SEGMENTS = 5;
+  private static readonly MAX_CHANGE_LENGTH = 120;
+
   private static readonly COLORS = {
     PRIMARY: 'blue',
     SUCCESS: 'green',
@@ -25,14 +44,10 @@ export class MessageTemplate {
   } as const;
 
   /**
-   * 格式化日期为 YYYY-MM-DD 格式
+   * 格式化日期为 YYYY-MM-DD 格式（北京时间）
    */
   private static formatDate(date?: string): string {
-    const targetDate = date ? new Date(date) : new Date();
-    const year = targetDate.getFullYear();
-    const month = (targetDate.getMonth() + 1).toString().padStart(2, '0');
-    const day = targetDate.getDate().toString().padStart(2, '0');
-    return `${year}-${month}-${day}`;
+    return ShanghaiTime.formatDate(date || new Date());
   }
 
   /**
@@ -56,26 +71,49 @@ export class MessageTemplate {
   }
 
   /**
-   * 创建操作按钮
+   * 创建操作按钮（详情 + 每个附件一个按钮，附件过多时最后一个按钮链接到公告页）
    */
   private static createActionButton(notice: Notice): any {
+    const attachments = notice.attachments || [];
+    const createButton = (content: string, url: string) => ({
+      tag: 'button',
+      text: {
+        tag: 'plain_text',
+        content
+      },
+      type: 'default',
+      size: 'tiny',
+      url
+    });
+
+    const attachmentButtons = attachments
+      .slice(0, this.MAX_ATTACHMENT_BUTTONS)
+      .map(attachment => createButton(`${this.EMOJI.ATTACHMENT} ${this.formatAttachmentName(attachment)}`, attachment.url));
+    if (attachments.length > this.MAX_ATTACHMENT_BUTTONS) {
+      attachmentButtons.push(createButton(`${this.EMOJI.ATTACHMENT} 共 ${attachments.length} 个附件`, notice.url));
+    }
+
     return {
       tag: 'action',
       actions: [
-        {
-          tag: 'button',
-          text: {
-            tag: 'plain_text',
-            content: '详情'
-          },
-          type: 'default',
-          size: 'tiny',
-          url: notice.url
-        }
+        createButton('详情', notice.url),
+        ...attachmentButtons
       ]
     };
   }
 
+  /**
+   * 格式化附件按钮文字，过长时截断并保留扩展名
+   */
+  private static formatAttachmentName(attachment: NoticeAttachment): string {
+    const maxLength = 20;
+    const name = attachment.name;
+    if (name.length <= maxLength) {
+      return name;
+    }
+    return `${name.substring(0, maxLength)}….${attachment.extension}`;
+  }
+
   /**
    * 创建卡片头部
    */
@@ -91,14 +129,79 @@ export class MessageTemplate {
 
   /**
    * 格式化单个通知内容
-   * 格式：{分类名} {日期} {文章标题}
+   * 格式：{分类名} {日期} {文章标题}，识别出结构化字段、原公告、疑似重复时另起一行展示
    */
   private static formatNoticeContent(notice: Notice): string {
     const category = notice.category || '未分类';
-    const date = this.formatDate(notice.publishDate);
+    // 推断的日期是抓取时间，不作为发布日期展示
+    const date = notice.dateSource === 'inferred' ? '日期未知' : this.formatDate(notice.publishDate);
     const title = this.cleanNoticeTitle(notice.title);
+    const lines = [`**${category}** ${date} ${title}`, this.formatNoticeFields(notice)];
+    if (notice.relatedTo) {
+      const original = notice.relatedTo.original;
+      lines.push(`${this.EMOJI.LINK} ${notice.relatedTo.type}：原公告 [${this.cleanNoticeTitle(original.title)}](${original.url})`);
+    }
+    if (notice.duplicateOf) {
+      lines.push(`${this.EMOJI.WARNING} 疑似重复，与 [${this.cleanNoticeTitle(notice.duplicateOf.title)}](${notice.duplicateOf.url}) 相似`);
+    }
     
-    return `**${category}** ${date} ${title}`;
+    return lines.filter(line => line.length > 0).join('\n');
+  }
+
+  /**
+   * 格式化结构化字段：行政区 · 住房类型 · 阶段 · 套数 · 关键时间
+   * 住房类型与分类名相同时不重复展示
+   */
+  private static formatNoticeFields(notice: Notice): string {
+    const fields = notice.fields;
+    if (!fields) {
+      return '';
+    }
+
+    const parts = [
+      fields.district,
+      fields.housingType !== notice.category ? fields.housingType : undefined,
+      fields.stage,
+      fields.units ? `${fields.units}套` : undefined,
+      ...fields.keyDates.slice(0, this.MAX_KEY_DATES).map(keyDate => {
+        const start = this.formatDate(keyDate.start).substring(5);
+        const end = keyDate.end ? this.formatDate(keyDate.end).substring(5) : start;
+        const label = keyDate.deadline ? `${keyDate.label}截止` : keyDate.label;
+        return `${label} ${start}${end !== start ? `~${end}` : ''}`;
+      }),
+    ].filter(part => !!part);
+
+    return parts.length > 0 ? `${this.EMOJI.PIN} ${parts.join(' · ')}` : '';
+  }
+
+  /**
+   * 格式化第一个表格的预览：表头和前几行，列数和单元格字数过多时截断
+   */
+  private static formatTablePreview(notice: Notice): string {
+    const table = notice.tables?.[0];
+    const previewRows = config.table.previewRows;
+    if (!table || previewRows <= 0) {
+      return '';
+    }
+
+    const formatRow = (row: string[]) => {
+      const cells = row.slice(0, this.MAX_TABLE_COLUMNS).map(cell =>
+        cell.length > this.MAX_TABLE_CELL_LENGTH ? `${cell.substring(0, this.MAX_TABLE_CELL_LENGTH)}…` : cell
+      );
+      return (row.length > this.MAX_TABLE_COLUMNS ? [...cells, '…'] : cells).join(' | ');
+    };
+
+    const more = notice.tables!.length > 1 ? `，另有 ${notice.tables!.length - 1} 个表格` : '';
+    const lines = [
+      `${this.EMOJI.CHART} **${table.caption || '表格'}**（共 ${table.rows.length} 行${more}）`,
+      `**${formatRow(table.headers)}**`,
+      ...table.rows.slice(0, previewRows).map(formatRow),
+    ];
+    if (table.rows.length > previewRows) {
+      lines.push('…');
+    }
+
+    return lines.join('\n');
   }
 
   /**
@@ -136,10 +239,17 @@ export class MessageTemplate {
       this.createCardElement(this.formatNoticeContent(notice)),
       // 详情
       this.createCardElement(`${this.EMOJI.MEMO} ${notice.summary || '暂无详情'}`),
-      // 操作按钮
-      this.createActionButton(notice)
     ];
 
+    // 表格预览
+    const tablePreview = this.formatTablePreview(notice);
+    if (tablePreview) {
+      elements.push(this.createCardElement(tablePreview));
+    }
+
+    // 操作按钮
+    elements.push(this.createActionButton(notice));
+
     return {
       msg_type: 'interactive',
       card: {
@@ -171,6 +281,12 @@ export class MessageTemplate {
         elements.push(this.createCardElement(`${this.EMOJI.MEMO} ${summary}`));
       }
 
+      // 表格预览
+      const tablePreview = this.formatTablePreview(notice);
+      if (tablePreview) {
+        elements.push(this.createCardElement(tablePreview));
+      }
+
       // 操作按钮
       elements.push(this.createActionButton(notice));
 
@@ -237,6 +353,105 @@ export class MessageTemplate {
     };
   }
 
+  /**
+   * 创建解析漂移告警消息
+   */
+  static createDriftAlertMessage(report: DriftReport): any {
+    const percent = (ratio: number) => `${(ratio * 100).toFixed(0)}%`;
+    const current = [
+      `列表项: ${report.stats.listItems} 个`,
+      `公告: ${report.stats.notices} 条`,
+      `可解析日期: ${percent(report.parsedDateRatio)}`,
+      `回退日期: ${percent(report.fallbackDateRatio)}`,
+    ].join('\n');
+    const baseline = report.baseline
+      ? [
+          `样本: 最近 ${report.baseline.samples} 次`,
+          `公告: ${report.baseline.minNotices} ~ ${report.baseline.maxNotices} 条`,
+          `可解析日期: ${percent(report.baseline.parsedDateRatio)}`,
+          `回退日期: ${percent(report.baseline.fallbackDateRatio)}`,
+        ].join('\n')
+      : '暂无基线样本';
+
+    return {
+      msg_type: 'interactive',
+      card: {
+        header: this.createCardHeader(`${this.EMOJI.WARNING} 列表页解析异常：${report.sourceName}`, this.COLORS.WARNING),
+        elements: [
+          this.createDivider(),
+          this.createCardElement(`${this.EMOJI.WARNING} **异常原因**\n${report.reasons.map(reason => `- ${reason}`).join('\n')}`),
+          this.createCardElement(`${this.EMOJI.CHART} **本次解析**\n${current}`),
+          this.createCardElement(`${this.EMOJI.INFO} **近期基线**\n${baseline}`),
+          this.createCardElement(`页面结构可能已变化，请检查 \`extractionSpecs.json\` 中数据源 \`${report.sourceId}\` 的提取规则`),
+          {
+            tag: 'action',
+            actions: [{
+              tag: 'button',
+              text: { tag: 'plain_text', content: '查看列表页' },
+              type: 'primary',
+              url: report.url
+            }]
+          }
+        ]
+      }
+    };
+  }
+
+  /**
+   * 创建公告更新消息：与上次推送时内容的差异
+   */
+  static createNoticeUpdateMessage(update: NoticeUpdate): any {
+    const maxChanges = config.changeDetection.maxChanges;
+    const changes = update.changes.slice(0, maxChanges).map((change, index) =>
+      this.createCardElement(`**第 ${index + 1} 处**\n${this.formatTextChange(change)}`)
+    );
+    const more = update.changes.length > maxChanges
+      ? [this.createCardElement(`另有 ${update.changes.length - maxChanges} 处变化，请查看原文`)]
+      : [];
+
+    return {
+      msg_type: 'interactive',
+      card: {
+        header: this.createCardHeader(`${this.EMOJI.MEMO} 公告已更新`, this.COLORS.WARNING),
+        elements: [
+          this.createDivider(),
+          this.createCardElement(`**${this.cleanNoticeTitle(update.notice.title)}**\n首次推送于 ${ShanghaiTime.formatDateTime(update.sentAt)}，共 ${update.changes.length} 处变化`),
+          ...changes,
+          ...more,
+          {
+            tag: 'action',
+            actions: [{
+              tag: 'button',
+              text: { tag: 'plain_text', content: '查看公告' },
+              type: 'primary',
+              url: update.notice.url
+            }]
+          }
+        ]
+      }
+    };
+  }
+
+  /**
+   * 格式化一处变化：删除的片段标红划线，新增的片段标绿
+   */
+  private static formatTextChange(change: TextChange): string {
+    const format = (segments: string[], render: (text: string) => string) => {
+      const lines = segments.slice(0, this.MAX_CHANGE_SEGMENTS).map(text =>
+        render(text.length > this.MAX_CHANGE_LENGTH ? `${text.substring(0, this.MAX_CHANGE_LENGTH)}…` : text)
+      );
+      if (segments.length > this.MAX_CHANGE_SEGMENTS) {
+        lines.push(`…另有 ${segments.length - this.MAX_CHANGE_SEGMENTS} 段`);
+      }
+      return lines;
+    };
+
+    return [
+      ...format(change.removed, text => `<font color='red'>- ~~${text}~~</font>`),
+      ...format(change.added, text => `<font color='green'>+ ${text}</font>`),
+    ].join('\n');
+  }
+
   /**
    * 创建状态消息
    */
@@ -8,7 +8,9 @@ import { CrawlerService } from '../services/crawlerService';
  */
 export class CronJobManager {
   private static task: cron.ScheduledTask | null = null;
+  private static changeTask: cron.ScheduledTask | null = null; // 公告内容复查
   private static isRunning = false;
+  private static isCheckingChanges = false;
   private static lastExecutionTime: string | null = null;
   private static executionCount = 0;
 
@@ -45,16 +47,45 @@ export class CronJobManager {
       logger.info(`定时任务已启动，执行规则: ${config.schedule.cronExpression}`);
       logger.info(`下次执行时间: ${this.getNextExecutionTime()}`);
 
+      this.startChangeCheck();
+
     } catch (error: any) {
       logger.error(`启动定时任务失败: ${error.message}`);
       throw error;
     }
   }
 
+  /**
+   * 启动公告内容复查任务
+   */
+  private static startChangeCheck(): void {
+    if (!config.changeDetection.enabled) {
+      return;
+    }
+
+    if (!cron.validate(config.changeDetection.cronExpression)) {
+      throw new Error(`无效的内容复查 cron 表达式: ${config.changeDetection.cronExpression}`);
+    }
+
+    this.changeTask = cron.schedule(config.changeDetection.cronExpression, async () => {
+      await this.executeChangeCheck();
+    }, {
+      timezone: 'Asia/Shanghai',
+    });
+
+    this.changeTask.start();
+    logger.info(`内容复查任务已启动，执行规则: ${config.changeDetection.cronExpression}`);
+  }
+
   /**
    * 停止定时任务
    */
   static stop(): void {
+    if (this.changeTask) {
+      this.changeTask.stop();
+      this.changeTask = null;
+    }
+
     if (this.task) {
       this.task.stop();
       this.task = null;
@@ -84,7 +115,7 @@ export class CronJobManager {
    * 执行任务逻辑
    */
   private static async executeTask(): Promise<void> {
-    if (this.isRunning) {
+    if (this.isRunning || this.isCheckingChanges) {
       logger.warn('任务正在执行中，跳过本次执行');
       return;
     }
@@ -130,6 +161,26 @@ export class CronJobManager {
     }
   }
 
+  /**
+   * 执行公告内容复查（抓取任务执行中时跳过，避免同时请求网站）
+   */
+  private static async executeChangeCheck(): Promise<void> {
+    if (this.isRunning || this.isCheckingChanges) {
+      logger.warn('任务正在执行中，跳过本次内容复查');
+      return;
+    }
+
+    this.isCheckingChanges = true;
+    try {
+      const crawlerService = new CrawlerService();
+      await crawlerService.checkUpdates();
+    } catch (error: any) {
+      logger.error('公告内容复查失败:', error);
+    } finally {
+      this.isCheckingChanges = false;
+    }
+  }
+
   /**
    * 获取下次执行时间
    */
@@ -158,6 +209,7 @@ export class CronJobManager {
     lastExecutionTime: string | null;
     nextExecutionTime: string;
     enabled: boolean;
+    changeCheckCron: string | null;
   } {
     return {
       isScheduled: !!this.task,
@@ -167,6 +219,7 @@ export class CronJobManager {
       lastExecutionTime: this.lastExecutionTime,
       nextExecutionTime: this.getNextExecutionTime(),
       enabled: config.schedule.enabled,
+      changeCheckCron: this.changeTask ? config.changeDetection.cronExpression : null,
     };
   }
 
@@ -209,18 +262,18 @@ export class CronJobManager {
   static async shutdown(): Promise<void> {
     logger.info('开始关闭定时任务管理器');
     
-    if (this.isRunning) {
+    if (this.isRunning || this.isCheckingChanges) {
       logger.info('等待当前任务执行完成...');
       // 等待当前任务完成（最多等待60秒）
       let waitTime = 0;
       const maxWaitTime = 60000;
       
-      while (this.isRunning && waitTime < maxWaitTime) {
+      while ((this.isRunning || this.isCheckingChanges) && waitTime < maxWaitTime) {
         await new Promise(resolve => setTimeout(resolve, 1000));
         waitTime += 1000;
       }
       
-      if (this.isRunning) {
+      if (this.isRunning || this.isCheckingChanges) {
         logger.warn('任务执行超时，强制关闭');
       }
     }
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { CalendarEvent, Notice, NoticeKeyDate } from '../types';
+import { config } from '../config/config';
+import { redisService } from './redisService';
+import { logger } from '../utils/logger';
+import { ShanghaiTime } from '../utils/shanghaiTime';
+
+/**
+ * 公告关键时间日历
+ * 将公告中的认购、资格审核、选房等时间段和截止时间生成 iCalendar 事件，
+ * 写入 .ics 文件或通过 HTTP 提供订阅，事件链接回公告原文
+ */
+export class CalendarFeed {
+  private static readonly STORE_KEY = 'calendar:events';
+  private static readonly CALENDAR_NAME = '深圳住房公告日程';
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  private static memory: CalendarEvent[] = [];
+  private static server: http.Server | null = null;
+
+  /**
+   * 由公告的关键时间生成日历事件
+   */
+  static fromNotice(notice: Notice): CalendarEvent[] {
+    const keyDates = notice.fields?.keyDates || [];
+    const subject = notice.fields?.projectName || this.shortTitle(notice.title);
+    const createdAt = new Date().toISOString();
+
+    return keyDates.map(keyDate => ({
+      uid: this.getUid(notice.id, keyDate),
+      noticeId: notice.id,
+      title: `【${this.eventLabel(keyDate)}】${subject}`,
+      start: keyDate.start,
+      end: keyDate.end,
+      allDay: keyDate.allDay,
+      url: notice.url,
+      description: notice.title,
+      createdAt,
+    }));
+  }
+
+  /**
+   * 记录新公告的事件并更新日历文件
+   */
+  static async record(notices: Notice[]): Promise<void> {
+    if (!config.calendar.enabled) {
+      return;
+    }
+
+    const added = notices.flatMap(notice => this.fromNotice(notice));
+    if (added.length === 0) {
+      return;
+    }
+
+    try {
+      const events = new Map((await this.getEvents()).map(event => [event.uid, event]));
+      for (const event of added) {
+        // 保留首次记录时间，避免订阅端认为事件被修改
+        events.set(event.uid, { ...event, createdAt: events.get(event.uid)?.createdAt || event.createdAt });
+      }
+
+      const kept = this.prune([...events.values()]);
+      await this.saveEvents(kept);
+      await this.writeFile(kept);
+      logger.info(`日历新增 ${added.length} 个事件，共 ${kept.length} 个`);
+    } catch (error: any) {
+      logger.warn(`更新日历失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 生成 iCalendar 文本
+   */
+  static render(events: CalendarEvent[]): string {
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//sz-room-crawler//notice calendar//ZH',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escape(this.CALENDAR_NAME)}`,
+      `X-WR-TIMEZONE:${ShanghaiTime.TIME_ZONE}`,
+    ];
+
+    const sorted = [...events].sort((a, b) => a.start.localeCompare(b.start));
+    for (const event of sorted) {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${this.formatDateTime(event.createdAt)}`,
+        ...this.formatRange(event),
+        `SUMMARY:${this.escape(event.title)}`,
+        `DESCRIPTION:${this.escape(`${event.description}\n${event.url}`)}`,
+        `URL:${event.url}`,
+        'END:VEVENT'
+      );
+    }
+
+    lines.push('END:VCALENDAR');
+    return lines.map(line => this.fold(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * 启动日历订阅 HTTP 服务（GET /calendar.ics）
+   */
+  static startServer(): void {
+    if (!config.calendar.enabled || config.calendar.port <= 0 || this.server) {
+      return;
+    }
+
+    this.server = http.createServer(async (req, res) => {
+      const pathname = (req.url || '/').split('?')[0];
+      if (req.method !== 'GET' || !['/', '/calendar.ics'].includes(pathname)) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      try {
+        const body = this.render(this.prune(await this.getEvents()));
+        res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8' }).end(body);
+      } catch (error: any) {
+        logger.error('生成日历失败:', error);
+        res.writeHead(500).end();
+      }
+    });
+
+    this.server.on('error', error => logger.error('日历订阅服务异常:', error));
+    this.server.listen(config.calendar.port, () => {
+      logger.info(`日历订阅服务已启动: http://localhost:${config.calendar.port}/calendar.ics`);
+    });
+  }
+
+  /**
+   * 停止日历订阅服务
+   */
+  static async stopServer(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * 删除结束超过保留天数的事件
+   */
+  private static prune(events: CalendarEvent[]): CalendarEvent[] {
+    const cutoff = Date.now() - config.calendar.retentionDays * this.DAY_MS;
+    return events.filter(event => new Date(event.end || event.start).getTime() >= cutoff);
+  }
+
+  private static async getEvents(): Promise<CalendarEvent[]> {
+    if (redisService.isReady()) {
+      const events = await redisService.getJson<CalendarEvent[]>(this.STORE_KEY);
+      if (events) {
+        return events;
+      }
+    }
+
+    return this.memory;
+  }
+
+  private static async saveEvents(events: CalendarEvent[]): Promise<void> {
+    this.memory = events;
+
+    if (redisService.isReady()) {
+      await redisService.setJson(this.STORE_KEY, events, config.calendar.retentionDays * 24 * 60 * 60);
+    }
+  }
+
+  /**
+   * 写入日历文件；回放模式写入回放输出目录
+   */
+  private static async writeFile(events: CalendarEvent[]): Promise<void> {
+    const file = config.replay.dir
+      ? config.replay.outputDir && path.join(config.replay.outputDir, path.basename(config.calendar.file || 'notices.ics'))
+      : config.calendar.file;
+    if (!file) {
+      return;
+    }
+
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, this.render(events), 'utf8');
+  }
+
+  /**
+   * 时间段（全天事件使用日期，结束日期不含当天）
+   */
+  private static formatRange(event: CalendarEvent): string[] {
+    if (event.allDay) {
+      const endDay = new Date(event.end || event.start).getTime() + this.DAY_MS;
+      return [
+        `DTSTART;VALUE=DATE:${this.formatDate(event.start)}`,
+        `DTEND;VALUE=DATE:${this.formatDate(new Date(endDay).toISOString())}`,
+      ];
+    }
+
+    return [
+      `DTSTART:${this.formatDateTime(event.start)}`,
+      `DTEND:${this.formatDateTime(event.end || event.start)}`,
+    ];
+  }
+
+  private static eventLabel(keyDate: NoticeKeyDate): string {
+    const label = keyDate.label.replace(/(?:时间|日期)$/, '') || keyDate.label;
+    return keyDate.deadline ? `${label}截止` : label;
+  }
+
+  private static shortTitle(title: string): string {
+    return title.replace(/^深圳市[^关]*关于/, '').replace(/[（(][^）)]*[）)]$/, '').trim();
+  }
+
+  private static getUid(noticeId: string, keyDate: NoticeKeyDate): string {
+    const hash = crypto.createHash('sha1').update(`${keyDate.label}|${keyDate.start}`).digest('hex').slice(0, 12);
+    return `${noticeId}-${hash}@sz-room-crawler`;
+  }
+
+  /**
+   * UTC 时间，如 20250601T010000Z
+   */
+  private static formatDateTime(iso: string): string {
+    return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * 北京时间的日期，如 20250601
+   */
+  private static formatDate(iso: string): string {
+    return ShanghaiTime.formatDate(iso).replace(/-/g, '');
+  }
+
+  private static escape(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * 按 RFC 5545 折行（每行不超过 75 字节）
+   */
+  private static fold(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+
+    for (const char of line) {
+      if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+        parts.push(current);
+        current = '';
+      }
+      current += char;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+}
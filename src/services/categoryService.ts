@@ -1,11 +1,15 @@
 import { Notice, CategoryRule, CategorizedNotices } from '../types';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
+import { SourceRegistry } from '../crawler/sourceRegistry';
 
 /**
  * 公告分类服务
  */
 export class CategoryService {
+  // 分类规则可使用的结构化字段
+  private static readonly FIELD_NAMES = ['housingType', 'stage', 'district'];
+
   /**
    * 对公告进行分类
    */
@@ -36,33 +40,70 @@ export class CategoryService {
     return categorized;
   }
 
+  /**
+   * 获取单个公告的分类（已分类时直接返回，不修改公告）
+   */
+  static getCategory(notice: Notice): string {
+    const rules = [...config.filter.categoryRules].sort((a, b) => a.priority - b.priority);
+    return notice.category || this.getNoticeCategory(notice, rules);
+  }
+
   /**
    * 获取单个公告的分类
+   * 先匹配结构化字段、标题和摘要，未命中时再匹配正文及附件文本
    */
   private static getNoticeCategory(notice: Notice, rules: CategoryRule[]): string {
     const title = notice.title.toLowerCase();
     const summary = (notice.summary || '').toLowerCase();
-    const content = title + ' ' + summary;
-
-    for (const rule of rules) {
-      // 如果关键词为空，这是默认分类（通常是最后一个）
-      if (rule.keywords.length === 0) {
-        return rule.name;
-      }
+    const headline = title + ' ' + summary;
+    const content = (notice.content || '').toLowerCase();
+    // 数据源配置的默认分类优先于规则中的默认分类
+    const sourceDefault = SourceRegistry.get(notice.sourceId)?.defaultCategory;
 
-      // 检查是否包含关键词
-      const hasKeyword = rule.keywords.some(keyword => 
-        content.includes(keyword.toLowerCase())
-      );
+    const matched = this.matchRule(headline, rules, notice) || (content ? this.matchRule(content, rules) : undefined);
+    if (matched) {
+      logger.debug(`公告 "${notice.title}" 归类为: ${matched.name}`);
+      return matched.name;
+    }
 
-      if (hasKeyword) {
-        logger.debug(`公告 "${notice.title}" 归类为: ${rule.name}`);
-        return rule.name;
-      }
+    // 关键词和字段条件均为空的规则是默认分类（通常是最后一个）
+    const defaultRule = rules.find(rule => this.isDefaultRule(rule));
+    if (defaultRule) {
+      return sourceDefault || defaultRule.name;
     }
 
     // 如果没有匹配的规则，返回默认分类
-    return '其他';
+    return sourceDefault || '其他';
+  }
+
+  /**
+   * 按优先级查找第一个命中关键词（或结构化字段）的规则
+   */
+  private static matchRule(text: string, rules: CategoryRule[], notice?: Notice): CategoryRule | undefined {
+    return rules.find(rule =>
+      (notice !== undefined && this.matchFields(notice, rule)) ||
+      (rule.keywords.length > 0 &&
+        rule.keywords.some(keyword => text.includes(keyword.toLowerCase())))
+    );
+  }
+
+  /**
+   * 结构化字段是否命中规则的任一字段条件
+   */
+  private static matchFields(notice: Notice, rule: CategoryRule): boolean {
+    if (!rule.fields || !notice.fields) {
+      return false;
+    }
+
+    const fields = notice.fields;
+    return Object.entries(rule.fields).some(([field, values]) => {
+      const value = fields[field as keyof typeof rule.fields];
+      return Array.isArray(values) && !!value && values.includes(value);
+    });
+  }
+
+  private static isDefaultRule(rule: CategoryRule): boolean {
+    return rule.keywords.length === 0 && !rule.fields;
   }
 
   /**
@@ -130,6 +171,16 @@ export class CategoryService {
         errors.push(`规则 ${index + 1}: 关键词必须是数组`);
       }
 
+      if (rule.fields) {
+        Object.entries(rule.fields).forEach(([field, values]) => {
+          if (!this.FIELD_NAMES.includes(field)) {
+            errors.push(`规则 ${index + 1}: 未知的字段条件 "${field}"`);
+          } else if (!Array.isArray(values)) {
+            errors.push(`规则 ${index + 1}: 字段条件 ${field} 必须是数组`);
+          }
+        });
+      }
+
       if (typeof rule.priority !== 'number') {
         errors.push(`规则 ${index + 1}: 优先级必须是数字`);
       }
@@ -148,8 +199,8 @@ export class CategoryService {
       }
     });
 
-    // 检查是否有默认分类（关键词为空的分类）
-    const hasDefaultCategory = rules.some(rule => rule.keywords.length === 0);
+    // 检查是否有默认分类（关键词和字段条件为空的分类）
+    const hasDefaultCategory = rules.some(rule => Array.isArray(rule.keywords) && this.isDefaultRule(rule));
     if (!hasDefaultCategory) {
       errors.push('必须至少有一个默认分类（关键词为空）');
     }
@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { Notice, NoticeUpdate, Subscriber } from '../types';
+import { config } from '../config/config';
+import { redisService } from './redisService';
+import { EnrichmentService } from './enrichmentService';
+import { TextDiff } from '../utils/textDiff';
+import { logger } from '../utils/logger';
+
+// 已推送公告的内容记录
+interface WatchedNotice {
+  noticeId: string;
+  sourceId: string;
+  title: string;
+  url: string;
+  publishDate: string;
+  contentHash: string;
+  text: string;             // 比较用的文本（附件列表 + 详情页正文）
+  subscriberIds: string[];  // 接收过该公告的订阅者，为空时为全局配置的群
+  sentAt: string;
+  checkedAt: string;
+}
+
+// 检测到的内容更新及其接收者
+export interface DetectedUpdate {
+  update: NoticeUpdate;
+  subscriberIds: string[];
+}
+
+/**
+ * 公告内容变化检测
+ * 记录已推送公告的正文哈希，定时重新抓取近期公告的详情页，
+ * 内容变化（日期调整、附件替换、名单更正等）时给出与上次内容的差异
+ */
+export class ChangeDetector {
+  private static readonly KEY_PREFIX = 'watch:';
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  // 保存的比较文本长度上限
+  private static readonly MAX_TEXT_LENGTH = 20000;
+
+  private static memory: Map<string, WatchedNotice> = new Map();
+
+  /**
+   * 记录已推送的公告（没有正文的公告无法比较，跳过）
+   */
+  static async watch(notices: Notice[], subscriber?: Subscriber): Promise<void> {
+    if (!config.changeDetection.enabled) {
+      return;
+    }
+
+    try {
+      let count = 0;
+      for (const notice of notices) {
+        const text = this.getText(notice);
+        if (!text) {
+          continue;
+        }
+
+        const existing = await this.get(notice.id);
+        const now = new Date().toISOString();
+        const subscriberIds = new Set(existing?.subscriberIds || []);
+        if (subscriber) {
+          subscriberIds.add(subscriber.id);
+        }
+
+        await this.save({
+          noticeId: notice.id,
+          sourceId: notice.sourceId,
+          title: notice.title,
+          url: notice.url,
+          publishDate: notice.publishDate,
+          contentHash: existing?.contentHash || this.hash(text),
+          text: existing?.text || text,
+          subscriberIds: [...subscriberIds],
+          sentAt: existing?.sentAt || now,
+          checkedAt: existing?.checkedAt || now,
+        });
+        count++;
+      }
+
+      if (count > 0) {
+        logger.debug(`记录 ${count} 条公告的内容哈希`);
+      }
+    } catch (error: any) {
+      logger.warn(`记录公告内容哈希失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 需要复查的公告（复查天数内推送的），转为可重新补全详情的公告
+   */
+  static async getDue(): Promise<Notice[]> {
+    const cutoff = Date.now() - config.changeDetection.windowDays * this.DAY_MS;
+    const records = (await this.getAll()).filter(record => new Date(record.sentAt).getTime() >= cutoff);
+    for (const [noticeId, record] of this.memory) {
+      if (new Date(record.sentAt).getTime() < cutoff) {
+        this.memory.delete(noticeId);
+      }
+    }
+
+    return records.map(record => ({
+      id: record.noticeId,
+      title: record.title,
+      url: record.url,
+      publishDate: record.publishDate,
+      dateSource: 'parsed',
+      sourceId: record.sourceId,
+    }));
+  }
+
+  /**
+   * 与记录的内容比较，返回内容变化的公告，并更新记录
+   * 未能重新获取正文的公告跳过，下次再复查
+   */
+  static async compare(notices: Notice[]): Promise<DetectedUpdate[]> {
+    const updates: DetectedUpdate[] = [];
+    const now = new Date().toISOString();
+
+    for (const notice of notices) {
+      const record = await this.get(notice.id);
+      const text = this.getText(notice);
+      if (!record || !text) {
+        continue;
+      }
+
+      const contentHash = this.hash(text);
+      if (contentHash !== record.contentHash) {
+        // 旧记录中含附件文本，去掉后再比较
+        const changes = TextDiff.compare(EnrichmentService.getBody(record.text), text);
+        // 哈希不同但切分后相同（仅空白变化）时不视为更新
+        if (changes.length > 0) {
+          logger.info(`公告内容已更新: ${record.title}（${changes.length} 处变化）`);
+          updates.push({
+            update: {
+              notice: { id: record.noticeId, title: record.title, url: record.url },
+              changes,
+              sentAt: record.sentAt,
+              detectedAt: now,
+            },
+            subscriberIds: record.subscriberIds,
+          });
+        }
+      }
+
+      await this.save({ ...record, contentHash, text, checkedAt: now });
+    }
+
+    return updates;
+  }
+
+  /**
+   * 比较用的文本：附件列表（附件替换时也能发现）+ 详情页正文，没有正文时为空
+   * 不比较附件文本：附件下载或提取偶尔失败，会被误判为内容更新
+   */
+  private static getText(notice: Notice): string {
+    const body = EnrichmentService.getBody(notice.content || '');
+    if (!body) {
+      return '';
+    }
+
+    const attachments = (notice.attachments || []).map(attachment => attachment.name);
+    const text = attachments.length > 0 ? `附件：${attachments.join('、')}\n${body}` : body;
+    return text.slice(0, this.MAX_TEXT_LENGTH);
+  }
+
+  private static hash(text: string): string {
+    return crypto.createHash('sha256').update(TextDiff.split(text).join('\n')).digest('hex');
+  }
+
+  private static async get(noticeId: string): Promise<WatchedNotice | null> {
+    if (redisService.isReady()) {
+      const record = await redisService.getJson<WatchedNotice>(`${this.KEY_PREFIX}${noticeId}`);
+      if (record) {
+        return record;
+      }
+    }
+
+    return this.memory.get(noticeId) || null;
+  }
+
+  private static async getAll(): Promise<WatchedNotice[]> {
+    if (!redisService.isReady()) {
+      return [...this.memory.values()];
+    }
+
+    // Redis 中的记录到期自动删除
+    const records: WatchedNotice[] = [];
+    for (const key of await redisService.scanKeys(`${this.KEY_PREFIX}*`)) {
+      const record = await redisService.getJson<WatchedNotice>(key);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * 保存记录，过期时间为首次推送后的复查天数
+   */
+  private static async save(record: WatchedNotice): Promise<void> {
+    this.memory.set(record.noticeId, record);
+
+    if (redisService.isReady()) {
+      const remaining = new Date(record.sentAt).getTime() + config.changeDetection.windowDays * this.DAY_MS - Date.now();
+      await redisService.setJson(`${this.KEY_PREFIX}${record.noticeId}`, record, Math.max(60, Math.ceil(remaining / 1000)));
+    }
+  }
+}
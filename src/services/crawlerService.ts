@@ -1,24 +1,49 @@
-import { Notice, FilterResult, PushResult } from '../types';
+import { Notice, FilterResult, PushResult, PushMode, SourceConfig, PageState, CrawlerError, ParseStats, Subscriber, NoticeOutcome, TraceStage } from '../types';
 import { WebScraper } from '../crawler/scraper';
 import { HtmlParser } from '../crawler/parser';
+import { FeedParser } from '../crawler/feedParser';
+import { SourceRegistry } from '../crawler/sourceRegistry';
 import { DataFilter } from '../filter/dataFilter';
 import { DeduplicationFilter } from '../filter/deduplication';
+import { NearDuplicateFilter } from '../filter/nearDuplicate';
 import { FeishuBot } from '../notification/feishuBot';
 import { CategoryService } from './categoryService';
+import { EnrichmentService } from './enrichmentService';
+import { NoticeFieldExtractor } from './noticeFields';
+import { PageStateStore } from './pageStateStore';
+import { SnapshotArchive } from './snapshotArchive';
+import { DriftDetector } from './driftDetector';
+import { CalendarFeed } from './calendarFeed';
+import { TableExport } from './tableExport';
+import { ChangeDetector } from './changeDetector';
+import { NoticeRelations } from './noticeRelations';
+import { FilterTrace } from './filterTrace';
+import { NoticeIdMigration } from './noticeIdMigration';
+import { SubscriptionService } from './subscriptionService';
 import { logger } from '../utils/logger';
 import { config } from '../config/config';
 
+// 抓取阶段结果
+interface CrawlOutcome {
+  notices: Notice[];
+  pageStates: PageState[];  // 待任务成功后保存的列表页状态
+  unchanged: boolean;       // 所有数据源的列表页均未变化
+  drifted: boolean;         // 有数据源检测到解析漂移（已单独告警）
+}
+
 /**
  * 爬虫服务主类
  */
 export class CrawlerService {
   private scraper: WebScraper;
+  private enrichment: EnrichmentService;
   private lastRunTime: string | null = null;
   private totalProcessed = 0;
-  private pushMode: 'single' | 'categorized' | 'by-category' = 'categorized'; // 推送模式
+  private pushMode: PushMode = 'categorized'; // 推送模式（订阅者未指定时使用）
 
-  constructor(pushMode: 'single' | 'categorized' | 'by-category' = 'categorized') {
+  constructor(pushMode: PushMode = 'categorized') {
     this.scraper = new WebScraper();
+    this.enrichment = new EnrichmentService(this.scraper);
     this.pushMode = pushMode;
     logger.info(`爬虫服务初始化完成，推送模式: ${pushMode}`);
   }
@@ -26,7 +51,7 @@ export class CrawlerService {
   /**
    * 设置推送模式
    */
-  setPushMode(mode: 'single' | 'categorized' | 'by-category'): void {
+  setPushMode(mode: PushMode): void {
     this.pushMode = mode;
     logger.info(`推送模式已设置为: ${mode}`);
   }
@@ -44,33 +69,94 @@ export class CrawlerService {
   }> {
     const startTime = Date.now();
     logger.info('开始执行爬虫任务');
+    FilterTrace.begin();
 
     try {
-      // 1. 抓取网页数据
-      const htmlPages = await this.fetchPages();
-      
-      // 2. 解析HTML数据
-      const allNotices = await this.parsePages(htmlPages);
+      // 1-2. 抓取并解析网页数据（增量翻页）
+      const crawlOutcome = await this.crawlSources();
+      const allNotices = crawlOutcome.notices;
+
+      if (crawlOutcome.unchanged) {
+        const duration = Date.now() - startTime;
+        logger.info(`列表页均未变化，跳过解析、过滤和去重，耗时: ${duration}ms`);
+        this.lastRunTime = new Date().toISOString();
+        await FilterTrace.finish('列表页均未变化，未处理公告');
+        return {
+          success: true,
+          totalProcessed: 0,
+          newNotices: 0,
+          filteredOut: 0,
+        };
+      }
       
-      // 3. 数据过滤
+      // 旧版公告ID的发送记录迁移到新ID（旧记录全部过期后不再执行）
+      await NoticeIdMigration.migrate(allNotices);
+
+      // 3. 预过滤（时间范围、数据校验）
       const filterResult = this.filterNotices(allNotices);
       
-      // 4. 去重处理（异步）
-      const dedupeResult = await this.deduplicateNotices(filterResult);
+      // 4. 去重处理（任一订阅者未接收过的公告）
+      const subscribers = SubscriptionService.getSubscribers();
+      const dedupeResult = await this.deduplicateNotices(filterResult, subscribers);
       
-      // 5. 推送新公告
+      // 5. 补全新公告详情（失败不影响推送）
+      // 并从标题和正文提取结构化字段（项目、行政区、住房类型、阶段等）
+      const enrichedNotices = NoticeFieldExtractor.apply(await this.enrichment.enrich(dedupeResult.notices));
+
+      // 6. 关键词和字段过滤（可匹配正文及附件文本），近似重复的公告不推送或标注疑似重复
+      // 更正、补充等公告关联到原公告
+      dedupeResult.notices = await NoticeRelations.apply(
+        await NearDuplicateFilter.apply(DataFilter.filterByContent(enrichedNotices))
+      );
+      dedupeResult.filteredCount -= enrichedNotices.length - dedupeResult.notices.length;
+      dedupeResult.newCount = dedupeResult.notices.length;
+      
+      // 7. 推送新公告（配置了订阅者时按订阅分发）
       let pushResult: PushResult | PushResult[] | undefined;
+      let pushed: Notice[] = [];
       if (dedupeResult.newCount > 0) {
-        pushResult = await this.pushNotices(dedupeResult.notices);
-        
-        // 标记公告为已发送
-        await this.markNoticesAsSent(dedupeResult.notices);
+        // 只有推送成功的公告标记为已发送（推送失败的下次重试），并记录内容哈希，供之后复查内容变化
+        if (subscribers.length > 0) {
+          ({ results: pushResult, pushed } = await this.dispatchNotices(dedupeResult.notices, subscribers));
+        } else {
+          pushResult = await this.pushNotices(dedupeResult.notices);
+          pushed = this.getPushedNotices(dedupeResult.notices, pushResult);
+          await this.markNoticesAsSent(pushed);
+          await ChangeDetector.watch(pushed);
+        }
+
+        // 记录指纹和已推送的公告，供之后的近似重复检测和原公告查找
+        // 只记录推送成功的公告：推送失败的公告重试时不会与自己的指纹判为重复，也不会被当作原公告关联
+        await NearDuplicateFilter.record(pushed);
+        await NoticeRelations.record(pushed);
+
+        // 已推送公告的关键时间写入日历（推送只有一次，日历供订阅提醒；推送失败的公告重试成功后再写入）
+        await CalendarFeed.record(pushed);
+        await TableExport.write(dedupeResult.notices);
       } else {
         logger.info('没有新公告需要推送');
       }
 
-      // 6. 记录统计信息
+      // 被关键词、字段或近似重复过滤的公告标记为已处理（不计为已发送），避免每次重新补全详情
+      const finalIds = new Set(dedupeResult.notices.map(notice => notice.id));
+      await this.markNoticesAsProcessed(enrichedNotices.filter(notice => !finalIds.has(notice.id)), subscribers);
+
+      // 记录本次抓取到的全部公告和列表页状态，供下次增量翻页和条件请求判断
+      // 有推送失败或详情补全失败（未推送）的公告时不记录，否则下次首页未变化或遇到已见公告即停止翻页，这些公告不会再被抓取
+      const pushedIds = new Set(pushed.map(notice => notice.id));
+      if (pushResult && this.hasPushFailure(pushResult)) {
+        logger.warn('部分公告推送失败，不保存列表页状态和已见记录，下次重新抓取后重试推送');
+      } else if (enrichedNotices.some(notice => notice.detailFailed && !pushedIds.has(notice.id))) {
+        logger.warn('部分公告详情补全失败，不保存列表页状态和已见记录，下次重新抓取后重新补全');
+      } else {
+        await DeduplicationFilter.markBatchAsSeen(allNotices);
+        await this.savePageStates(crawlOutcome.pageStates);
+      }
+      await SnapshotArchive.cleanup();
+
+      // 8. 记录统计信息和各公告的过滤判定
       this.updateStats(dedupeResult);
+      await FilterTrace.finish();
       
       const duration = Date.now() - startTime;
       const result = {
@@ -87,16 +173,19 @@ export class CrawlerService {
     } catch (error: any) {
       const duration = Date.now() - startTime;
       logger.error(`爬虫任务执行失败，耗时: ${duration}ms`, error);
+      await FilterTrace.finish(`任务失败: ${error.message}`);
 
-      // 推送错误通知
-      try {
-        await FeishuBot.pushError('爬虫任务执行失败', {
-          error: error.message,
-          duration,
-          timestamp: new Date().toISOString(),
-        });
-      } catch (pushError: any) {
-        logger.error('推送错误通知失败:', pushError);
+      // 推送错误通知（解析漂移已推送专门告警，不再重复通知）
+      if (!(error instanceof CrawlerError && error.code === 'PARSER_DRIFT')) {
+        try {
+          await FeishuBot.pushError('爬虫任务执行失败', {
+            error: error.message,
+            duration,
+            timestamp: new Date().toISOString(),
+          });
+        } catch (pushError: any) {
+          logger.error('推送错误通知失败:', pushError);
+        }
       }
 
       return {
@@ -110,53 +199,168 @@ export class CrawlerService {
   }
 
   /**
-   * 抓取网页数据
+   * 复查近期推送过的公告，内容变化时推送"公告已更新"及差异
+   * 更新推送给接收过原公告的订阅者（未配置订阅者时推送到全局配置的群）
    */
-  private async fetchPages(): Promise<string[]> {
-    logger.info('开始抓取网页数据');
-    
-    try {
-      // 抓取前3页数据（可配置）
-      const pages = await this.scraper.fetchMultiplePages(1);
-      
-      if (pages.length === 0) {
-        throw new Error('未能抓取到任何页面数据');
-      }
+  async checkUpdates(): Promise<{ checked: number; updated: number; pushResults: PushResult[] }> {
+    const pushResults: PushResult[] = [];
+    if (!config.changeDetection.enabled) {
+      return { checked: 0, updated: 0, pushResults };
+    }
 
-      logger.info(`成功抓取 ${pages.length} 个页面`);
-      return pages;
+    const due = await ChangeDetector.getDue();
+    if (due.length === 0) {
+      logger.info('没有需要复查内容的公告');
+      return { checked: 0, updated: 0, pushResults };
+    }
 
-    } catch (error: any) {
-      logger.error('抓取网页数据失败:', error);
-      throw new Error(`网页抓取失败: ${error.message}`);
+    logger.info(`开始复查 ${due.length} 条已推送公告的内容`);
+    // 只比较详情页正文和附件列表，不需要下载附件
+    const updates = await ChangeDetector.compare(await this.enrichment.enrich(due, false));
+
+    const subscribers = SubscriptionService.getSubscribers();
+    for (const { update, subscriberIds } of updates) {
+      const recipients = subscriberIds.length > 0
+        ? subscribers.filter(subscriber => subscriberIds.includes(subscriber.id))
+        : [undefined];
+      for (const subscriber of recipients) {
+        pushResults.push(await FeishuBot.pushNoticeUpdate(update, subscriber));
+      }
     }
+
+    logger.info(`内容复查完成：${due.length} 条公告，${updates.length} 条已更新`);
+    return { checked: due.length, updated: updates.length, pushResults };
   }
 
   /**
-   * 解析HTML页面
+   * 抓取并解析所有已启用数据源
    */
-  private async parsePages(htmlPages: string[]): Promise<Notice[]> {
-    logger.info('开始解析HTML数据');
+  private async crawlSources(): Promise<CrawlOutcome> {
+    const sources = SourceRegistry.getEnabled();
+    logger.info(`开始抓取网页数据，共 ${sources.length} 个数据源，最大翻页深度: ${config.crawler.maxPages}`);
     
     const allNotices: Notice[] = [];
-    
-    for (let i = 0; i < htmlPages.length; i++) {
+    const pageStates: PageState[] = [];
+    let succeededSources = 0;
+    let unchangedSources = 0;
+    let drifted = false;
+
+    for (const source of sources) {
       try {
-        const notices = HtmlParser.parseNoticeList(htmlPages[i]);
-        allNotices.push(...notices);
-        logger.debug(`第 ${i + 1} 页解析出 ${notices.length} 条公告`);
+        const outcome = await this.crawlSource(source);
+        allNotices.push(...outcome.notices);
+        pageStates.push(...outcome.pageStates);
+        succeededSources++;
+        drifted = drifted || outcome.drifted;
+        if (outcome.unchanged) {
+          unchangedSources++;
+        }
       } catch (error: any) {
-        logger.warn(`解析第 ${i + 1} 页失败: ${error.message}`);
-        // 继续处理其他页面
+        if (error instanceof CrawlerError && error.code === 'HOST_BACKOFF') {
+          logger.warn(`数据源 [${source.id}] 所在主机要求退避，本次跳过: ${error.message}`);
+        } else {
+          logger.error(`数据源 [${source.id}] 抓取失败: ${error.message}`);
+        }
+        // 继续抓取其他数据源
       }
     }
 
-    if (allNotices.length === 0) {
+    if (succeededSources === 0) {
+      throw new Error('网页抓取失败: 未能抓取到任何页面数据');
+    }
+
+    const unchanged = unchangedSources === succeededSources;
+    if (allNotices.length === 0 && !unchanged) {
+      if (drifted) {
+        throw new CrawlerError('未能解析到任何公告数据，页面结构可能已变化', 'PARSER_DRIFT');
+      }
       throw new Error('未能解析到任何公告数据');
     }
 
-    logger.info(`总共解析出 ${allNotices.length} 条公告`);
-    return allNotices;
+    logger.info(`总共解析出 ${allNotices.length} 条公告，未变化的数据源: ${unchangedSources}/${succeededSources}`);
+    return { notices: allNotices, pageStates, unchanged, drifted };
+  }
+
+  /**
+   * 增量抓取单个数据源
+   * 逐页翻页，直到某一页的公告在之前的运行中全部抓取过（或达到最大深度）
+   */
+  private async crawlSource(source: SourceConfig): Promise<CrawlOutcome> {
+    const notices: Notice[] = [];
+    let drifted = false;
+
+    // 未配置分页的订阅/接口只有一页
+    const maxPages = source.pagination || (source.type ?? 'html') === 'html' ? config.crawler.maxPages : 1;
+
+    const { unchanged, pageStates } = await this.scraper.fetchPagesUntil(source, maxPages, async (html, pageNum) => {
+      let pageNotices: Notice[];
+      try {
+        const parsed = this.parseListPage(html, source);
+        pageNotices = parsed.notices;
+
+        // 以首页检测页面结构漂移（其后的页面公告数量不固定）
+        if (pageNum === 1) {
+          drifted = await this.checkDrift(source, parsed.stats);
+        }
+      } catch (error: any) {
+        logger.warn(`[${source.id}] 解析第 ${pageNum} 页失败: ${error.message}`);
+        return false;
+      }
+
+      logger.debug(`[${source.id}] 第 ${pageNum} 页解析出 ${pageNotices.length} 条公告`);
+      notices.push(...pageNotices);
+
+      if (pageNotices.length === 0) {
+        return false;
+      }
+
+      if (await DeduplicationFilter.areAllSeen(pageNotices)) {
+        logger.info(`[${source.id}] 第 ${pageNum} 页公告均已处理，停止翻页`);
+        return false;
+      }
+
+      return true;
+    });
+
+    return { notices, pageStates, unchanged, drifted };
+  }
+
+  /**
+   * 按数据源类型解析列表页（HTML、RSS/Atom、JSON 接口）
+   */
+  private parseListPage(body: string, source: SourceConfig): { notices: Notice[]; stats: ParseStats } {
+    switch (source.type) {
+      case 'rss':
+        return FeedParser.parseFeed(body, source);
+      case 'json':
+        return FeedParser.parseJson(body, source);
+      default:
+        return HtmlParser.parseNoticeListWithStats(body, source);
+    }
+  }
+
+  /**
+   * 检测解析漂移，发生漂移时推送专门的告警
+   */
+  private async checkDrift(source: SourceConfig, stats: ParseStats): Promise<boolean> {
+    const report = await DriftDetector.check(source, SourceRegistry.buildPageUrl(source, 1), stats);
+    if (!report) {
+      return false;
+    }
+
+    if (await DriftDetector.shouldAlert(source.id)) {
+      await FeishuBot.pushDriftAlert(report);
+    }
+    return true;
+  }
+
+  /**
+   * 保存列表页状态（仅在任务成功后调用，避免失败后跳过未处理的页面）
+   */
+  private async savePageStates(pageStates: PageState[]): Promise<void> {
+    for (const state of pageStates) {
+      await PageStateStore.set(state);
+    }
   }
 
   /**
@@ -165,51 +369,110 @@ export class CrawlerService {
   private filterNotices(notices: Notice[]): FilterResult {
     logger.info('开始过滤公告数据');
     
-    const filterResult = DataFilter.filter(notices);
+    const filterResult = DataFilter.prefilter(notices);
     
-    logger.info(`过滤完成：${filterResult.totalCount} -> ${filterResult.filteredCount} 条`);
+    logger.info(`预过滤完成：${filterResult.totalCount} -> ${filterResult.filteredCount} 条`);
     return filterResult;
   }
 
   /**
    * 去重处理（异步版本）
    */
-  private async deduplicateNotices(filterResult: FilterResult): Promise<FilterResult> {
+  private async deduplicateNotices(filterResult: FilterResult, subscribers: Subscriber[]): Promise<FilterResult> {
     logger.info('开始去重处理');
     
-    const dedupeResult = await DeduplicationFilter.process(filterResult);
+    const dedupeResult = await DeduplicationFilter.process(filterResult, SubscriptionService.getDedupeIds(subscribers));
     
     logger.info(`去重完成：${dedupeResult.filteredCount} -> ${dedupeResult.newCount} 条新公告`);
     return dedupeResult;
   }
 
+  /**
+   * 按订阅分发公告：每个订阅者只收到命中自己条件且未接收过的公告
+   * 推送成功的公告标记为该订阅者已发送，未命中订阅条件的标记为该订阅者已处理
+   * 返回各订阅者的推送结果，以及推送给至少一个订阅者的公告
+   */
+  private async dispatchNotices(notices: Notice[], subscribers: Subscriber[]): Promise<{ results: PushResult[]; pushed: Notice[] }> {
+    const results: PushResult[] = [];
+    const pushedIds = new Set<string>();
+
+    for (const subscriber of subscribers) {
+      const matched = SubscriptionService.match(subscriber, notices);
+      const unsent = await DeduplicationFilter.filterUnsent(matched, SubscriptionService.getDedupeId(subscriber));
+      this.traceSubscriber(subscriber, notices, matched, unsent);
+
+      const matchedIds = new Set(matched.map(notice => notice.id));
+      await this.markNoticesAsProcessed(
+        notices.filter(notice => !matchedIds.has(notice.id)),
+        [subscriber],
+        { stage: 'subscriber', reason: `${subscriber.name}: 未命中订阅条件` }
+      );
+
+      if (unsent.length === 0) {
+        logger.info(`订阅者 [${subscriber.name}] 没有新公告（命中 ${matched.length} 条）`);
+        continue;
+      }
+
+      const pushResult = await this.pushNotices(unsent, subscriber.pushMode || this.pushMode, subscriber);
+      const pushed = this.getPushedNotices(unsent, pushResult);
+      await this.markNoticesAsSent(pushed, subscriber);
+      await ChangeDetector.watch(pushed, subscriber);
+      pushed.forEach(notice => pushedIds.add(notice.id));
+      for (const result of Array.isArray(pushResult) ? pushResult : [pushResult]) {
+        results.push({ ...result, message: `${subscriber.name}: ${result.message}` });
+      }
+    }
+
+    return { results, pushed: notices.filter(notice => pushedIds.has(notice.id)) };
+  }
+
+  /**
+   * 记录订阅者的判定：未命中订阅条件、已接收过或将推送
+   */
+  private traceSubscriber(subscriber: Subscriber, notices: Notice[], matched: Notice[], unsent: Notice[]): void {
+    const matchedIds = new Set(matched.map(notice => notice.id));
+    const unsentIds = new Set(unsent.map(notice => notice.id));
+
+    for (const notice of notices) {
+      if (unsentIds.has(notice.id)) {
+        FilterTrace.pass(notice, 'subscriber', subscriber.name);
+      } else {
+        FilterTrace.drop(notice, 'subscriber', `${subscriber.name}: ${matchedIds.has(notice.id) ? '已接收过' : '未命中订阅条件'}`);
+      }
+    }
+  }
+
   /**
    * 推送公告（支持多种模式）
    */
-  private async pushNotices(notices: Notice[]): Promise<PushResult | PushResult[]> {
-    logger.info(`开始推送 ${notices.length} 条公告，推送模式: ${this.pushMode}`);
+  private async pushNotices(
+    notices: Notice[],
+    pushMode: PushMode = this.pushMode,
+    subscriber?: Subscriber
+  ): Promise<PushResult | PushResult[]> {
+    logger.info(`开始推送 ${notices.length} 条公告，推送模式: ${pushMode}`);
     
     try {
       let pushResult: PushResult | PushResult[];
 
-      switch (this.pushMode) {
+      switch (pushMode) {
         case 'single':
           // 原有的单条消息推送
-          pushResult = await FeishuBot.pushNotices(notices);
+          pushResult = await FeishuBot.pushNotices(notices, subscriber);
           break;
           
         case 'categorized':
           // 分类后的单条消息推送
-          pushResult = await FeishuBot.pushCategorizedNotices(notices);
+          pushResult = await FeishuBot.pushCategorizedNotices(notices, subscriber);
           break;
           
         case 'by-category':
           // 按分类分别推送
-          pushResult = await FeishuBot.pushNoticesByCategory(notices);
+          pushResult = await FeishuBot.pushNoticesByCategory(notices, subscriber);
           break;
           
         default:
-          throw new Error(`未知的推送模式: ${this.pushMode}`);
+          throw new Error(`未知的推送模式: ${pushMode}`);
       }
 
       // 记录推送结果
@@ -223,32 +486,108 @@ export class CrawlerService {
           logger.error('公告推送失败:', pushResult.message);
         }
       }
+      this.tracePush(notices, pushResult, subscriber);
       
       return pushResult;
 
     } catch (error: any) {
       logger.error('推送公告时发生错误:', error);
-      return {
+      const failure = {
         success: false,
         message: `推送失败: ${error.message}`,
         timestamp: new Date().toISOString(),
       };
+      this.tracePush(notices, failure, subscriber);
+      return failure;
     }
   }
 
   /**
-   * 标记公告为已发送
+   * 记录推送判定
    */
-  private async markNoticesAsSent(notices: Notice[]): Promise<void> {
+  private tracePush(notices: Notice[], pushResult: PushResult | PushResult[], subscriber?: Subscriber): void {
+    const results = Array.isArray(pushResult) ? pushResult : [pushResult];
+    const pushedIds = new Set(this.getPushedNotices(notices, pushResult).map(notice => notice.id));
+
+    for (const notice of notices) {
+      if (pushedIds.has(notice.id)) {
+        FilterTrace.pass(notice, 'push', subscriber?.name);
+      } else {
+        const failed = results.find(result => !result.success && (!result.noticeIds || result.noticeIds.includes(notice.id)));
+        FilterTrace.drop(notice, 'push', `${subscriber ? `${subscriber.name}: ` : ''}${failed?.message || '推送失败'}`);
+      }
+    }
+  }
+
+  /**
+   * 推送成功的公告：按分类分别推送时取所在消息推送成功的公告，否则须全部消息推送成功
+   */
+  private getPushedNotices(notices: Notice[], pushResult: PushResult | PushResult[]): Notice[] {
+    const results = Array.isArray(pushResult) ? pushResult : [pushResult];
+
+    if (results.every(result => result.noticeIds)) {
+      const pushedIds = new Set(results.filter(result => result.success).flatMap(result => result.noticeIds!));
+      return notices.filter(notice => pushedIds.has(notice.id));
+    }
+    return results.every(result => result.success) ? notices : [];
+  }
+
+  /**
+   * 是否有推送失败的消息
+   */
+  private hasPushFailure(pushResult: PushResult | PushResult[]): boolean {
+    return (Array.isArray(pushResult) ? pushResult : [pushResult]).some(result => !result.success);
+  }
+
+  /**
+   * 标记公告为已发送（指定订阅者时只记录该订阅者）
+   */
+  private async markNoticesAsSent(notices: Notice[], subscriber?: Subscriber): Promise<void> {
+    if (notices.length === 0) {
+      return;
+    }
+
     try {
       const noticeIds = notices.map(notice => notice.id);
-      await DeduplicationFilter.markBatchAsSent(noticeIds);
-      logger.info(`标记 ${noticeIds.length} 条公告为已发送`);
+      await DeduplicationFilter.markBatchAsSent(noticeIds, SubscriptionService.getDedupeId(subscriber));
+      logger.info(`标记 ${noticeIds.length} 条公告为已发送${subscriber ? ` [${subscriber.name}]` : ''}`);
     } catch (error: any) {
       logger.error('标记公告为已发送失败:', error);
     }
   }
 
+  /**
+   * 标记未推送的公告为已处理（每个订阅者分别记录），之后不再重新补全详情，但不计为已发送
+   * 记录中保存被过滤的阶段和原因（未指定时取本次运行中的过滤判定），供之后查询
+   * 详情补全失败的公告只按标题判定过，不标记，下次重新补全后再判定
+   */
+  private async markNoticesAsProcessed(
+    notices: Notice[],
+    subscribers: Subscriber[],
+    drop?: { stage: TraceStage; reason: string }
+  ): Promise<void> {
+    notices = notices.filter(notice => !notice.detailFailed);
+    if (notices.length === 0) {
+      return;
+    }
+
+    try {
+      const at = new Date().toISOString();
+      const outcomes: { [noticeId: string]: NoticeOutcome } = {};
+      for (const notice of notices) {
+        const decision = drop || FilterTrace.getDrop(notice);
+        outcomes[notice.id] = decision ? { pushed: false, at, stage: decision.stage, reason: decision.reason } : { pushed: false, at };
+      }
+
+      for (const subscriberId of SubscriptionService.getDedupeIds(subscribers)) {
+        await DeduplicationFilter.markBatchAsProcessed(outcomes, subscriberId);
+      }
+      logger.info(`标记 ${notices.length} 条未推送的公告为已处理`);
+    } catch (error: any) {
+      logger.error('标记公告为已处理失败:', error);
+    }
+  }
+
   /**
    * 更新统计信息
    */
@@ -270,9 +609,11 @@ export class CrawlerService {
     lastRunTime: string | null;
     config: {
       baseUrl: string;
+      sources: string[];
       dayRange: number;
       keywords: string[];
       excludeKeywords: string[];
+      subscribers: string[];
     };
   } {
     return {
@@ -280,9 +621,11 @@ export class CrawlerService {
       lastRunTime: this.lastRunTime,
       config: {
         baseUrl: config.crawler.baseUrl,
+        sources: SourceRegistry.getEnabled().map(source => source.id),
         dayRange: config.filter.dayRange,
         keywords: config.filter.keywords,
         excludeKeywords: config.filter.excludeKeywords,
+        subscribers: SubscriptionService.getSubscribers().map(subscriber => subscriber.id),
       },
     };
   }
@@ -305,23 +648,24 @@ export class CrawlerService {
 
     logger.info('开始测试爬虫功能');
 
-    // 测试网页抓取
+    // 测试网页抓取（使用第一个已启用的数据源）
+    const [source] = SourceRegistry.getEnabled();
     try {
-      const page = await this.scraper.fetchNoticeListPage(1);
+      const page = await this.scraper.fetchNoticeListPage(source, 1);
       if (page && page.length > 0) {
         fetchTest = true;
         logger.info('✓ 网页抓取测试通过');
 
-        // 测试HTML解析
+        // 测试列表解析
         try {
-          const notices = HtmlParser.parseNoticeList(page);
+          const { notices } = this.parseListPage(page, source);
           if (notices.length > 0) {
             parseTest = true;
-            logger.info(`✓ HTML解析测试通过，解析出 ${notices.length} 条公告`);
+            logger.info(`✓ 列表解析测试通过，解析出 ${notices.length} 条公告`);
 
             // 测试数据过滤
             try {
-              const filterResult = DataFilter.filter(notices.slice(0, 5)); // 只测试前5条
+              const filterResult = DataFilter.filter(NoticeFieldExtractor.apply(notices.slice(0, 5))); // 只测试前5条
               filterTest = true;
               logger.info(`✓ 数据过滤测试通过，过滤结果: ${filterResult.filteredCount} 条`);
             } catch (error: any) {
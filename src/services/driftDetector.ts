@@ -0,0 +1,163 @@
+import { DriftReport, ParseStats, SourceConfig } from '../types';
+import { config } from '../config/config';
+import { redisService } from './redisService';
+import { logger } from '../utils/logger';
+
+// 单次解析的基线样本
+interface DriftSample {
+  notices: number;
+  parsedDateRatio: number;
+  fallbackDateRatio: number;
+  recordedAt: string;
+}
+
+// 数据源的解析基线
+interface DriftBaseline {
+  samples: DriftSample[];
+  lastAlertAt?: string;
+}
+
+/**
+ * 列表页解析漂移检测
+ * 将首页的公告数量、日期解析占比与近期正常样本组成的基线比较，发现页面结构变化
+ */
+export class DriftDetector {
+  private static readonly BASELINE_TTL = 30 * 24 * 60 * 60; // 基线保留30天
+  private static memory: Map<string, DriftBaseline> = new Map();
+
+  /**
+   * 检查一次解析结果，发生漂移时返回报告；正常样本计入基线
+   */
+  static async check(source: SourceConfig, url: string, stats: ParseStats): Promise<DriftReport | null> {
+    if (!config.drift.enabled) {
+      return null;
+    }
+
+    const baseline = await this.getBaseline(source.id);
+    const sample: DriftSample = {
+      notices: stats.notices,
+      parsedDateRatio: stats.notices > 0 ? stats.parsedDates / stats.notices : 0,
+      fallbackDateRatio: stats.notices > 0 ? stats.fallbackDates / stats.notices : 1,
+      recordedAt: new Date().toISOString(),
+    };
+
+    const summary = this.summarize(baseline.samples);
+    const reasons = this.compare(stats, sample, summary);
+
+    if (reasons.length === 0) {
+      baseline.samples = [...baseline.samples, sample].slice(-config.drift.baselineSize);
+      await this.saveBaseline(source.id, baseline);
+      return null;
+    }
+
+    logger.warn(`[${source.id}] 检测到列表页解析漂移: ${reasons.join('；')}`);
+    return {
+      sourceId: source.id,
+      sourceName: source.name,
+      url,
+      stats,
+      parsedDateRatio: sample.parsedDateRatio,
+      fallbackDateRatio: sample.fallbackDateRatio,
+      baseline: summary,
+      reasons,
+      detectedAt: sample.recordedAt,
+    };
+  }
+
+  /**
+   * 是否需要发送告警（同一数据源在冷却时间内只告警一次），需要时记录告警时间
+   */
+  static async shouldAlert(sourceId: string): Promise<boolean> {
+    const baseline = await this.getBaseline(sourceId);
+    const lastAlertAt = baseline.lastAlertAt ? new Date(baseline.lastAlertAt).getTime() : 0;
+
+    if (Date.now() - lastAlertAt < config.drift.alertCooldown * 1000) {
+      logger.info(`[${sourceId}] 解析漂移告警处于冷却期，本次不重复告警`);
+      return false;
+    }
+
+    baseline.lastAlertAt = new Date().toISOString();
+    await this.saveBaseline(sourceId, baseline);
+    return true;
+  }
+
+  /**
+   * 与基线比较，返回漂移原因
+   */
+  private static compare(stats: ParseStats, sample: DriftSample, baseline: DriftReport['baseline']): string[] {
+    const reasons: string[] = [];
+
+    // 解析不到任何公告时无需基线即可判定
+    if (stats.notices === 0) {
+      reasons.push(`未解析到任何公告（匹配列表项 ${stats.listItems} 个）`);
+      return reasons;
+    }
+
+    if (!baseline || baseline.samples < config.drift.minSamples) {
+      return reasons;
+    }
+
+    const { countTolerance, ratioTolerance } = config.drift;
+    const minNotices = Math.floor(baseline.minNotices * (1 - countTolerance));
+    const maxNotices = Math.ceil(baseline.maxNotices * (1 + countTolerance));
+
+    if (stats.notices < minNotices || stats.notices > maxNotices) {
+      reasons.push(`公告数量 ${stats.notices} 超出近期范围 [${minNotices}, ${maxNotices}]`);
+    }
+
+    if (sample.parsedDateRatio < baseline.parsedDateRatio - ratioTolerance) {
+      reasons.push(`可解析日期占比 ${this.percent(sample.parsedDateRatio)} 低于基线 ${this.percent(baseline.parsedDateRatio)}`);
+    }
+
+    if (sample.fallbackDateRatio > baseline.fallbackDateRatio + ratioTolerance) {
+      reasons.push(`回退日期占比 ${this.percent(sample.fallbackDateRatio)} 高于基线 ${this.percent(baseline.fallbackDateRatio)}`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * 汇总基线样本
+   */
+  private static summarize(samples: DriftSample[]): DriftReport['baseline'] {
+    if (samples.length === 0) {
+      return null;
+    }
+
+    const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+    return {
+      samples: samples.length,
+      minNotices: Math.min(...samples.map(sample => sample.notices)),
+      maxNotices: Math.max(...samples.map(sample => sample.notices)),
+      parsedDateRatio: average(samples.map(sample => sample.parsedDateRatio)),
+      fallbackDateRatio: average(samples.map(sample => sample.fallbackDateRatio)),
+    };
+  }
+
+  private static async getBaseline(sourceId: string): Promise<DriftBaseline> {
+    if (redisService.isReady()) {
+      const baseline = await redisService.getJson<DriftBaseline>(this.getKey(sourceId));
+      if (baseline) {
+        return baseline;
+      }
+    }
+
+    return this.memory.get(sourceId) || { samples: [] };
+  }
+
+  private static async saveBaseline(sourceId: string, baseline: DriftBaseline): Promise<void> {
+    this.memory.set(sourceId, baseline);
+
+    if (redisService.isReady()) {
+      await redisService.setJson(this.getKey(sourceId), baseline, this.BASELINE_TTL);
+    }
+  }
+
+  private static getKey(sourceId: string): string {
+    return `drift:${sourceId}`;
+  }
+
+  private static percent(ratio: number): string {
+    return `${(ratio * 100).toFixed(0)}%`;
+  }
+}
@@ -0,0 +1,109 @@
+import { Notice, NoticeAttachment, SourceConfig } from '../types';
+import { WebScraper } from '../crawler/scraper';
+import { HtmlParser } from '../crawler/parser';
+import { SourceRegistry } from '../crawler/sourceRegistry';
+import { AttachmentExtractor } from '../crawler/attachmentExtractor';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+
+/**
+ * 公告详情补全服务
+ * 为新公告抓取详情页，补充正文、摘要和附件（含附件文本）
+ */
+export class EnrichmentService {
+  // 附件文本段落的标题前缀，附件文本追加在详情页正文之后
+  private static readonly ATTACHMENT_HEADER = '【附件：';
+
+  constructor(private readonly scraper: WebScraper) {}
+
+  /**
+   * 批量补全公告详情（有限并发，单条失败不影响其他公告）
+   * withAttachmentText 为 false 时只抓取详情页，不下载和提取附件（如复查内容变化）
+   */
+  async enrich(notices: Notice[], withAttachmentText: boolean = true): Promise<Notice[]> {
+    if (!config.crawler.fetchDetail || notices.length === 0) {
+      return notices;
+    }
+
+    logger.info(`开始补全 ${notices.length} 条公告详情，并发数: ${config.crawler.detailConcurrency}`);
+
+    const enriched = await mapWithConcurrency(
+      notices,
+      config.crawler.detailConcurrency,
+      notice => this.enrichNotice(notice, withAttachmentText)
+    );
+
+    const successCount = enriched.filter(notice => !!notice.content).length;
+    logger.info(`详情补全完成，成功: ${successCount}/${notices.length}`);
+
+    return enriched;
+  }
+
+  /**
+   * 补全单条公告详情，失败时返回原公告并标记补全失败
+   */
+  private async enrichNotice(notice: Notice, withAttachmentText: boolean): Promise<Notice> {
+    try {
+      const source = SourceRegistry.get(notice.sourceId);
+      const html = await this.scraper.fetchNoticeDetail(notice.url, source);
+      const detail = HtmlParser.parseNoticeDetail(html, notice.url, source);
+      const attachmentText = withAttachmentText ? await this.extractAttachmentsText(detail.attachments, source) : '';
+      const content = [detail.content || notice.content || '', attachmentText]
+        .filter(part => part.length > 0)
+        .join('\n\n');
+
+      return {
+        ...notice,
+        content: content || undefined,
+        summary: detail.summary || notice.summary,
+        attachments: detail.attachments,
+        tables: detail.tables.length > 0 ? detail.tables : undefined,
+      };
+    } catch (error: any) {
+      logger.warn(`补全公告详情失败，保留原始数据: ${notice.title} - ${error.message}`);
+      return { ...notice, detailFailed: true };
+    }
+  }
+
+  /**
+   * 去掉追加的附件文本，只保留详情页正文
+   */
+  static getBody(content: string): string {
+    if (content.startsWith(this.ATTACHMENT_HEADER)) {
+      return '';
+    }
+
+    const index = content.indexOf(`\n\n${this.ATTACHMENT_HEADER}`);
+    return index >= 0 ? content.substring(0, index) : content;
+  }
+
+  /**
+   * 依次下载并提取附件文本，单个附件失败时跳过
+   */
+  private async extractAttachmentsText(attachments: NoticeAttachment[], source?: SourceConfig): Promise<string> {
+    if (!config.attachment.extractText) {
+      return '';
+    }
+
+    const parts: string[] = [];
+
+    for (const attachment of attachments) {
+      if (!AttachmentExtractor.isSupported(attachment.extension)) {
+        continue;
+      }
+
+      try {
+        const buffer = await this.scraper.fetchAttachment(attachment.url, source);
+        const text = await AttachmentExtractor.extractText(buffer, attachment.extension);
+        if (text) {
+          parts.push(`${EnrichmentService.ATTACHMENT_HEADER}${attachment.name}】\n${text}`);
+        }
+      } catch (error: any) {
+        logger.warn(`提取附件文本失败，已跳过: ${attachment.name} - ${error.message}`);
+      }
+    }
+
+    return parts.join('\n\n');
+  }
+}
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Notice, NoticeTrace, TraceDecision, TraceRun, TraceStage } from '../types';
+import { config } from '../config/config';
+import { redisService } from './redisService';
+import { logger } from '../utils/logger';
+
+// 查询条件
+export interface TraceQuery {
+  title?: string;   // 标题中包含的文字
+  url?: string;     // URL中包含的片段
+  runs?: number;    // 只查询最近几次运行
+}
+
+// 查询结果：运行及其中匹配的公告
+export interface TraceMatch {
+  run: TraceRun;
+  notices: NoticeTrace[];
+}
+
+/**
+ * 过滤判定记录
+ * 记录每次运行中每条公告经过的阶段（时间范围、校验、去重、关键词、表达式等）及被过滤的原因，
+ * 保留最近若干次运行，可按标题或URL查询 "为什么没有推送某条公告"。
+ * 未启用时仍在运行中记录判定（供已处理记录保存过滤原因），但不保存运行记录
+ */
+export class FilterTrace {
+  private static readonly STORE_KEY = 'trace:runs';
+  private static readonly TTL = 30 * 24 * 60 * 60; // 保留30天
+  private static readonly FILE_NAME = 'trace.json';
+
+  // 阶段名称
+  static readonly STAGE_LABELS: Record<TraceStage, string> = {
+    'date': '时间范围',
+    'validate': '数据校验',
+    'batch-duplicate': '批次内去重',
+    'sent': '已处理去重',
+    'keywords': '包含关键词',
+    'exclude-keywords': '排除关键词',
+    'query': '过滤表达式',
+    'fields': '结构化字段',
+    'near-duplicate': '近似重复',
+    'subscriber': '订阅条件',
+    'push': '推送',
+  };
+
+  private static memory: TraceRun[] = [];
+  private static current: { run: TraceRun; notices: Map<string, NoticeTrace> } | null = null;
+
+  /**
+   * 开始记录一次运行
+   */
+  static begin(): void {
+    this.current = { run: { startedAt: new Date().toISOString(), notices: [] }, notices: new Map() };
+  }
+
+  /**
+   * 记录公告通过某个阶段（note 为附加说明）
+   */
+  static pass(notice: Notice, stage: TraceStage, note?: string): void {
+    this.getTrace(notice)?.decisions.push(note ? { stage, passed: true, reason: note } : { stage, passed: true });
+  }
+
+  /**
+   * 记录公告在某个阶段被过滤及原因
+   */
+  static drop(notice: Notice, stage: TraceStage, reason: string): void {
+    this.getTrace(notice)?.decisions.push({ stage, passed: false, reason });
+  }
+
+  /**
+   * 是否正在记录并将保存（用于跳过只为记录原因而进行的查询）
+   */
+  static isActive(): boolean {
+    return this.current !== null && config.trace.enabled;
+  }
+
+  /**
+   * 公告在本次运行中最近一次被过滤的判定
+   */
+  static getDrop(notice: Notice): TraceDecision | undefined {
+    const decisions = this.current?.notices.get(notice.id)?.decisions || [];
+    return [...decisions].reverse().find(decision => !decision.passed);
+  }
+
+  /**
+   * 结束并保存本次运行的记录
+   */
+  static async finish(note?: string): Promise<void> {
+    if (!this.current || !config.trace.enabled) {
+      this.current = null;
+      return;
+    }
+
+    const run: TraceRun = {
+      ...this.current.run,
+      finishedAt: new Date().toISOString(),
+      notices: [...this.current.notices.values()],
+    };
+    if (note) {
+      run.note = note;
+    }
+    this.current = null;
+
+    try {
+      const runs = [run, ...(await this.getRuns())].slice(0, config.trace.runs);
+      await this.saveRuns(runs);
+    } catch (error: any) {
+      logger.warn(`保存过滤记录失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 最近的运行记录（最新的在前）
+   */
+  static async getRuns(): Promise<TraceRun[]> {
+    if (redisService.isReady()) {
+      return (await redisService.getJson<TraceRun[]>(this.STORE_KEY)) || this.memory;
+    }
+    return this.memory;
+  }
+
+  /**
+   * 按标题或URL查询公告的判定记录，不指定时返回各次运行的全部公告
+   */
+  static search(runs: TraceRun[], query: TraceQuery): TraceMatch[] {
+    const title = query.title?.toLowerCase();
+    const url = query.url?.toLowerCase();
+    const matches = (notice: NoticeTrace) =>
+      (!title || notice.title.toLowerCase().includes(title)) && (!url || notice.url.toLowerCase().includes(url));
+
+    return runs
+      .slice(0, query.runs || runs.length)
+      .map(run => ({ run, notices: run.notices.filter(matches) }))
+      .filter(match => (!title && !url) || match.notices.length > 0);
+  }
+
+  /**
+   * 公告的最终结果：已推送，或在哪个阶段因何被过滤
+   */
+  static summarize(trace: NoticeTrace): string {
+    const pushed = trace.decisions.filter(decision => decision.stage === 'push' && decision.passed);
+    if (pushed.length > 0) {
+      const recipients = pushed.map(decision => decision.reason).filter(reason => !!reason);
+      return recipients.length > 0 ? `已推送（${recipients.join('、')}）` : '已推送';
+    }
+
+    const dropped = trace.decisions.filter(decision => !decision.passed);
+    if (dropped.length === 0) {
+      return '未推送（未到达推送阶段）';
+    }
+    // 按订阅分发时每个订阅者各有一条判定，全部列出
+    const last = dropped[dropped.length - 1];
+    const reasons = last.stage === 'subscriber'
+      ? dropped.filter(decision => decision.stage === 'subscriber').map(decision => decision.reason).join('；')
+      : last.reason;
+    return `被过滤 [${this.STAGE_LABELS[last.stage]}] ${reasons}`;
+  }
+
+  /**
+   * 从回放输出目录读取运行记录
+   */
+  static async readFile(file: string): Promise<TraceRun[]> {
+    return JSON.parse(await fs.promises.readFile(file, 'utf8')) as TraceRun[];
+  }
+
+  private static getTrace(notice: Notice): NoticeTrace | undefined {
+    if (!this.current) {
+      return undefined;
+    }
+
+    let trace = this.current.notices.get(notice.id);
+    if (!trace) {
+      trace = { noticeId: notice.id, title: notice.title, url: notice.url, decisions: [] };
+      this.current.notices.set(notice.id, trace);
+    }
+    return trace;
+  }
+
+  /**
+   * 保存运行记录；回放模式写入回放输出目录（回放不读写 Redis）
+   */
+  private static async saveRuns(runs: TraceRun[]): Promise<void> {
+    this.memory = runs;
+
+    if (redisService.isReady()) {
+      await redisService.setJson(this.STORE_KEY, runs, this.TTL);
+    }
+
+    if (config.replay.dir && config.replay.outputDir) {
+      await fs.promises.mkdir(config.replay.outputDir, { recursive: true });
+      await fs.promises.writeFile(path.join(config.replay.outputDir, this.FILE_NAME), JSON.stringify(runs, null, 2));
+    }
+  }
+}
@@ -0,0 +1,289 @@
+import { Notice, NoticeFields, NoticeKeyDate } from '../types';
+import { logger } from '../utils/logger';
+import { ShanghaiTime } from '../utils/shanghaiTime';
+
+/**
+ * 公告结构化字段提取
+ * 从标题（必要时从正文）识别项目名称、行政区、住房类型、配售阶段、房源套数和关键时间，
+ * 结果写入 notice.fields，供过滤、分类和消息模板使用
+ */
+export class NoticeFieldExtractor {
+  // 深圳行政区（含新区、合作区）
+  private static readonly DISTRICTS = [
+    '福田区', '罗湖区', '南山区', '盐田区', '宝安区', '龙岗区', '龙华区',
+    '坪山区', '光明区', '大鹏新区', '深汕特别合作区',
+  ];
+
+  // 住房类型 -> 关键词
+  private static readonly HOUSING_TYPES: { [type: string]: string[] } = {
+    '人才房': ['面向人才配售', '人才配售住房', '人才住房', '人才房'],
+    '安居房': ['安居型商品房', '安居房'],
+    '保租房': ['保障性租赁住房', '保租房'],
+    '公租房': ['公共租赁住房', '公租房'],
+    '共有产权房': ['共有产权住房', '共有产权房'],
+  };
+
+  // 配售阶段 -> 关键词（按流程先后排列）
+  private static readonly STAGES: { [stage: string]: string[] } = {
+    '认购': ['认购', '申购', '意向登记'],
+    '资格审核': ['资格审核', '资格审查', '资格核查', '资格终审', '资格复核'],
+    '摇号': ['摇号', '排序结果'],
+    '选房': ['选房'],
+    '签约': ['签约', '网签', '签订合同', '签订买卖合同'],
+  };
+
+  // 项目名称通常以这些词结尾
+  private static readonly PROJECT_SUFFIX = '项目|花园|家园|雅苑|名苑|苑|府|公馆|公寓|名邸|大厦|新村|小区';
+
+  // 最多保留的关键时间数量
+  private static readonly MAX_KEY_DATES = 10;
+
+  // 日期后紧跟这些词时为截止时间
+  private static readonly DEADLINE_SUFFIX = /^\s*(?:之前|前|止|为止)/;
+
+  // 省略年份的日期与发布日期相差超过该天数时，视为次年的日期（如12月发布的 "1月5日"）
+  private static readonly YEAR_ROLLOVER_DAYS = 180;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  // 中文日期（时间）及可选的结束日期（时间），如 "2025年6月1日（星期日）9:00至6月5日17:00"、"6月1日至6月5日"
+  private static readonly DATE_PATTERN = new RegExp(
+    '(?:(\\d{4})年)?(\\d{1,2})月(\\d{1,2})日(?:[（(](?:星期|周)[一二三四五六日天][）)])?\\s*(?:(\\d{1,2})[:：](\\d{2}))?' +
+    '(?:\\s*(?:至|到|—|-|~|－)\\s*' +
+    '(?:(?:(\\d{4})年)?(\\d{1,2})月)?(?:(\\d{1,2})日)?(?:[（(](?:星期|周)[一二三四五六日天][）)])?\\s*(?:(\\d{1,2})[:：](\\d{2}))?)?',
+    'g'
+  );
+
+  /**
+   * 为公告批量提取结构化字段
+   */
+  static apply(notices: Notice[]): Notice[] {
+    const result = notices.map(notice => ({ ...notice, fields: this.extract(notice) }));
+    const recognized = result.filter(notice => notice.fields.housingType || notice.fields.stage).length;
+    logger.info(`结构化字段提取完成，识别出住房类型或阶段: ${recognized}/${notices.length}`);
+    return result;
+  }
+
+  /**
+   * 提取单条公告的结构化字段
+   * 项目名称、住房类型和阶段以标题为准，标题中没有时再查找摘要和正文
+   */
+  static extract(notice: Notice): NoticeFields {
+    const title = notice.title;
+    const body = `${notice.summary || ''}\n${notice.content || ''}`;
+
+    const fields: NoticeFields = {
+      projectName: this.extractProjectName(title),
+      district: this.findFirst(title, this.DISTRICTS) || this.findFirst(body, this.DISTRICTS),
+      housingType: this.matchHousingType(title) || this.matchHousingType(body),
+      stage: this.matchStage(title) || this.matchStage(notice.summary || ''),
+      units: this.extractUnits(title) ?? this.extractUnits(body),
+      keyDates: this.extractKeyDates(`${title}\n${body}`, notice.publishDate),
+    };
+
+    // 去掉空字段，便于日志和序列化
+    for (const key of Object.keys(fields) as (keyof NoticeFields)[]) {
+      if (fields[key] === undefined) {
+        delete fields[key];
+      }
+    }
+
+    return fields;
+  }
+
+  /**
+   * 从标题提取项目名称，如 "关于XX花园项目面向人才配售..." 中的 "XX花园项目"
+   */
+  private static extractProjectName(title: string): string | undefined {
+    const quoted = title.match(/[“"「]([^”"」]{2,30})[”"」]/);
+    if (quoted && new RegExp(`(?:${this.PROJECT_SUFFIX})$`).test(quoted[1])) {
+      return quoted[1];
+    }
+
+    const match = title.match(new RegExp(`关于(.{2,30}?(?:${this.PROJECT_SUFFIX}))`));
+    if (!match) {
+      return undefined;
+    }
+
+    // 书名号内为文件或采购项目名称，不是房源项目
+    const name = match[1];
+    return /[《》]/.test(name) ? undefined : name;
+  }
+
+  /**
+   * 按关键词在文本中最早出现的位置确定住房类型
+   */
+  private static matchHousingType(text: string): string | undefined {
+    let best: { type: string; index: number } | undefined;
+
+    for (const [type, keywords] of Object.entries(this.HOUSING_TYPES)) {
+      for (const keyword of keywords) {
+        const index = text.indexOf(keyword);
+        if (index >= 0 && (!best || index < best.index)) {
+          best = { type, index };
+        }
+      }
+    }
+
+    return best?.type;
+  }
+
+  /**
+   * 确定配售阶段；同时出现多个阶段时取流程中靠后的阶段
+   * （如 "认购资格审核结果" 为资格审核，"摇号及选房" 为选房）
+   */
+  private static matchStage(text: string): string | undefined {
+    let stage: string | undefined;
+
+    for (const [name, keywords] of Object.entries(this.STAGES)) {
+      if (keywords.some(keyword => text.includes(keyword))) {
+        stage = name;
+      }
+    }
+
+    return stage;
+  }
+
+  /**
+   * 提取房源套数，优先匹配 "共/合计/房源 N 套"
+   */
+  private static extractUnits(text: string): number | undefined {
+    const match = text.match(/(?:共|合计|总计|共计|提供|推出|房源)[^，。；\d]{0,10}?(\d[\d,]*)\s*套/)
+      || text.match(/(\d[\d,]*)\s*套/);
+    if (!match) {
+      return undefined;
+    }
+
+    const units = parseInt(match[1].replace(/,/g, ''));
+    return units > 0 ? units : undefined;
+  }
+
+  /**
+   * 提取关键时间（北京时间），说明取日期所在分句中日期前的文字
+   * 省略年份的日期按发布日期推断年份
+   */
+  private static extractKeyDates(text: string, publishDate: string): NoticeKeyDate[] {
+    const keyDates: NoticeKeyDate[] = [];
+    const seen = new Set<string>();
+
+    for (const match of text.matchAll(this.DATE_PATTERN)) {
+      const [, explicitYear, month, day, hour, minute, endYear, endMonth, endDay, endHour, endMinute] = match;
+      const year = explicitYear || this.inferYear(month, day, publishDate);
+      const start = year ? this.toIso(year, month, day, hour, minute) : null;
+      if (!year || !start) {
+        continue;
+      }
+
+      // 只有日期的结束时间按当天结束计算；跨年的区间（"12月28日至1月5日"）结束于次年
+      let end: string | undefined;
+      if (endDay || endHour) {
+        const toEnd = (endYearValue: string) => this.toIso(
+          endYearValue,
+          endMonth || month,
+          endDay || day,
+          endHour || '23',
+          endHour ? endMinute : '59'
+        );
+        end = toEnd(endYear || year) || undefined;
+        if (end && !endYear && end < start) {
+          end = toEnd(String(parseInt(year) + 1)) || undefined;
+        }
+      }
+
+      const index = match.index ?? 0;
+      const after = text.substring(index + match[0].length);
+      const deadline = !end && (this.DEADLINE_SUFFIX.test(after) || /截止|截至/.test(text.substring(index - 6, index)));
+      // "请于X月X日前提交材料" 的说明在日期之后
+      let label = this.getLabel(text, index);
+      if (deadline && label === '日期') {
+        label = this.getLabelAfter(after) || label;
+      }
+      const key = `${label}|${start}|${end || ''}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const keyDate: NoticeKeyDate = { label, start, allDay: !hour && !endHour };
+      if (end) {
+        keyDate.end = end;
+      }
+      if (deadline) {
+        keyDate.deadline = true;
+      }
+      keyDates.push(keyDate);
+      if (keyDates.length >= this.MAX_KEY_DATES) {
+        break;
+      }
+    }
+
+    return keyDates;
+  }
+
+  /**
+   * 取日期前同一分句中的文字作为说明，如 "选房时间：" -> "选房时间"
+   */
+  private static getLabel(text: string, index: number): string {
+    const before = text.substring(Math.max(0, index - 40), index);
+    const clause = before.split(/[，。；;,\n（(）)]/).pop() || '';
+    const label = clause
+      .replace(/[：:\s]+$/, '')
+      .replace(/(?:为|于|自|从|在|是|定于|截至|截止)$/, '')
+      .replace(/^[\s、\d.．一二三四五六七八九十]+/, '')
+      .replace(/^(?:请|须|应|需)/, '')
+      .trim();
+
+    return label.length > 12 ? label.substring(label.length - 12) : label || '日期';
+  }
+
+  /**
+   * 取截止时间之后同一分句中的文字作为说明，如 "前提交材料" -> "提交材料"
+   */
+  private static getLabelAfter(after: string): string {
+    const clause = after.replace(this.DEADLINE_SUFFIX, '').split(/[，。；;,\n（(）)]/)[0] || '';
+    return clause.trim().substring(0, 12);
+  }
+
+  /**
+   * 推断省略年份的日期所在年份：取发布日期（北京时间）的年份，
+   * 日期比发布日期早半年以上时为次年；发布日期无效时返回 undefined
+   */
+  private static inferYear(month: string, day: string, publishDate: string): string | undefined {
+    const published = new Date(publishDate);
+    if (isNaN(published.getTime())) {
+      return undefined;
+    }
+
+    const year = parseInt(ShanghaiTime.formatDate(published).substring(0, 4));
+    const date = this.toIso(String(year), month, day);
+    if (date && published.getTime() - new Date(date).getTime() > this.YEAR_ROLLOVER_DAYS * this.DAY_MS) {
+      return String(year + 1);
+    }
+    return String(year);
+  }
+
+  /**
+   * 转换为 ISO 字符串（按北京时间解释），日期无效时返回 null
+   */
+  private static toIso(year: string, month: string, day: string, hour?: string, minute?: string): string | null {
+    return ShanghaiTime.fromParts(
+      parseInt(year),
+      parseInt(month),
+      parseInt(day),
+      hour ? parseInt(hour) : 0,
+      minute ? parseInt(minute) : 0
+    );
+  }
+
+  private static findFirst(text: string, candidates: string[]): string | undefined {
+    let best: { value: string; index: number } | undefined;
+
+    for (const candidate of candidates) {
+      const index = text.indexOf(candidate);
+      if (index >= 0 && (!best || index < best.index)) {
+        best = { value: candidate, index };
+      }
+    }
+
+    return best?.value;
+  }
+}
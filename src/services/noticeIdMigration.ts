@@ -0,0 +1,80 @@
+import { Notice } from '../types';
+import { config } from '../config/config';
+import { NoticeIdentity } from '../crawler/noticeIdentity';
+import { SourceRegistry } from '../crawler/sourceRegistry';
+import { redisService } from './redisService';
+import { logger } from '../utils/logger';
+
+/**
+ * 公告ID迁移
+ * 旧版ID为URL文件名（如 post_12345），Redis 中的 sent:/seen: 记录无法直接换算出新ID，
+ * 因此在公告再次被抓取到时，按其旧ID查找记录并复制到新ID（保留剩余过期时间），避免切换后重复推送。
+ * 旧版只抓取 CRAWLER_BASE_URL 一个列表页，只有该数据源的公告参与迁移，新增数据源的同名页面不会继承旧记录。
+ * 旧记录全部过期后写入完成标记，之后不再检查
+ */
+export class NoticeIdMigration {
+  private static readonly MARKER_KEY = 'migration:notice-id';
+  private static readonly MARKER_TTL = 10 * 365 * 24 * 60 * 60;
+  private static readonly NAMESPACES = ['sent', 'seen'];
+  private static readonly RESCAN_INTERVAL = 24 * 60 * 60 * 1000; // 每天重新检查是否还有旧记录
+
+  private static pending: boolean | null = null;
+  private static lastScan = 0;
+
+  /**
+   * 将公告旧ID下的已发送、已抓取记录迁移到新ID
+   */
+  static async migrate(notices: Notice[]): Promise<void> {
+    if (!redisService.isReady() || notices.length === 0 || !(await this.hasLegacyKeys())) {
+      return;
+    }
+
+    const mapping: { [legacyId: string]: string[] } = {};
+    for (const notice of notices.filter(notice => this.isLegacySource(notice.sourceId))) {
+      const legacyId = NoticeIdentity.legacyId(notice.url);
+      mapping[legacyId] = [...(mapping[legacyId] || []), notice.id];
+    }
+
+    for (const namespace of this.NAMESPACES) {
+      const copied = await redisService.copyMarkers(namespace, mapping);
+      if (copied > 0) {
+        logger.info(`迁移 ${copied} 条旧格式 ${namespace} 记录到新公告ID`);
+      }
+    }
+  }
+
+  /**
+   * 数据源是否为旧版抓取的列表页
+   */
+  private static isLegacySource(sourceId: string): boolean {
+    return SourceRegistry.get(sourceId)?.listUrl === config.crawler.baseUrl;
+  }
+
+  /**
+   * 是否还有旧格式的已发送记录；没有时写入完成标记
+   */
+  private static async hasLegacyKeys(): Promise<boolean> {
+    if (this.pending !== null && Date.now() - this.lastScan < this.RESCAN_INTERVAL) {
+      return this.pending;
+    }
+    this.lastScan = Date.now();
+
+    if (await redisService.getJson(this.MARKER_KEY)) {
+      this.pending = false;
+      return false;
+    }
+
+    const legacyKeys = (await redisService.scanKeys('sent:*'))
+      .filter(key => !NoticeIdentity.isNamespaced(key.slice('sent:'.length)));
+    this.pending = legacyKeys.length > 0;
+
+    if (this.pending) {
+      logger.info(`发现 ${legacyKeys.length} 条旧格式已发送记录，将在公告再次抓取到时迁移`);
+    } else {
+      await redisService.setJson(this.MARKER_KEY, { completedAt: new Date().toISOString() }, this.MARKER_TTL);
+      logger.info('公告ID迁移已完成，没有旧格式记录');
+    }
+
+    return this.pending;
+  }
+}
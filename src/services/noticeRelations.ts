@@ -0,0 +1,252 @@
+import { Notice, NoticeRelation } from '../types';
+import { config } from '../config/config';
+import { redisService } from './redisService';
+import { logger } from '../utils/logger';
+
+// 已推送的公告（供之后的更正、补充等公告查找原公告）
+interface SentNotice {
+  noticeId: string;
+  title: string;
+  url: string;
+  projectName?: string;
+  related: boolean;                     // 本身是更正、补充等公告
+  messages: { [target: string]: string }; // 推送目标 -> Bot API 消息ID
+  sentAt: string;
+}
+
+// 关联类型及标题特征
+interface RelationPattern {
+  type: string;
+  pattern: RegExp;
+}
+
+/**
+ * 公告关联
+ * 标题为 "关于…的更正公告"、"补充通知"、"延期公告" 等的公告指向更早的一条公告，
+ * 依次按正文中引用的原公告标题（《…》）、项目名称、标题相似度在近期推送过的公告中查找原公告
+ */
+export class NoticeRelations {
+  private static readonly STORE_KEY = 'relations:notices';
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  private static readonly PATTERNS: RelationPattern[] = [
+    { type: '更正', pattern: /(?:更正|勘误)(?:的)?(?:公告|通知|说明|启事|公示)|^.*?关于更正/ },
+    { type: '补充', pattern: /补充(?:的)?(?:公告|通知|说明|公示)/ },
+    { type: '延期', pattern: /(?:延期|推迟)(?:的)?(?:公告|通知|说明)|^.*?关于(?:延期|推迟)/ },
+    { type: '变更', pattern: /变更(?:的)?(?:公告|通知|说明)/ },
+    { type: '撤销', pattern: /(?:撤销|撤回|终止)(?:的)?(?:公告|通知)|^.*?关于(?:撤销|暂停|取消)/ },
+  ];
+
+  // 比较标题时去掉的关联用语，如 "的更正公告"、开头的 "延期开展"
+  private static readonly RELATION_SUFFIX = /(?:的)?(?:更正|勘误|补充|延期|推迟|变更|撤销|撤回|终止)?(?:的)?(?:公告|通知|说明|启事|公示)$/;
+  private static readonly RELATION_PREFIX = /^(?:更正|延期|推迟|撤销|暂停|取消)(?:开展|举行|进行|受理)?/;
+
+  private static memory: SentNotice[] = [];
+
+  /**
+   * 识别标题中的关联类型，不是更正、补充等公告时返回 undefined
+   */
+  static getRelationType(title: string): string | undefined {
+    return this.PATTERNS.find(({ pattern }) => pattern.test(title))?.type;
+  }
+
+  /**
+   * 为更正、补充等公告关联原公告（找不到时保持原样）
+   */
+  static async apply(notices: Notice[]): Promise<Notice[]> {
+    if (!config.relation.enabled || !notices.some(notice => this.getRelationType(notice.title))) {
+      return notices;
+    }
+
+    const candidates = await this.getRecords();
+
+    return notices.map(notice => {
+      const type = this.getRelationType(notice.title);
+      if (!type) {
+        return notice;
+      }
+
+      const relation = this.findOriginal(notice, type, candidates.filter(candidate => candidate.noticeId !== notice.id));
+      if (!relation) {
+        logger.info(`未找到${type}公告对应的原公告: ${notice.title}`);
+        return notice;
+      }
+
+      logger.info(`关联${type}公告: ${notice.title} -> ${relation.original.title}（依据: ${relation.matchedBy}）`);
+      return { ...notice, relatedTo: relation };
+    });
+  }
+
+  /**
+   * 记录已推送的公告
+   */
+  static async record(notices: Notice[]): Promise<void> {
+    if (!config.relation.enabled || notices.length === 0) {
+      return;
+    }
+
+    try {
+      await this.update(notices, () => undefined);
+    } catch (error: any) {
+      logger.warn(`记录已推送公告失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 记录公告所在的 Bot API 消息，供之后回复到该消息的话题中
+   */
+  static async recordMessage(notices: Notice[], target: string, messageId: string): Promise<void> {
+    if (!config.relation.enabled || notices.length === 0) {
+      return;
+    }
+
+    try {
+      await this.update(notices, record => {
+        record.messages[target] = messageId;
+      });
+    } catch (error: any) {
+      logger.warn(`记录公告消息ID失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 公告推送到指定目标时的 Bot API 消息ID
+   */
+  static async getMessageId(noticeId: string, target: string): Promise<string | undefined> {
+    const record = (await this.getRecords()).find(candidate => candidate.noticeId === noticeId);
+    return record?.messages[target];
+  }
+
+  /**
+   * 依次按正文引用、项目名称、标题相似度查找原公告
+   */
+  private static findOriginal(notice: Notice, type: string, candidates: SentNotice[]): NoticeRelation | undefined {
+    // 原公告优先，其次是更早的更正、补充公告；同等条件下取最近推送的
+    const sorted = [...candidates].sort((a, b) => Number(a.related) - Number(b.related) || b.sentAt.localeCompare(a.sentAt));
+    const toRelation = (record: SentNotice, matchedBy: NoticeRelation['matchedBy']): NoticeRelation => ({
+      type,
+      original: { id: record.noticeId, title: record.title, url: record.url },
+      matchedBy,
+    });
+
+    // 1. 正文中引用的原公告标题，如 "我局于5月1日发布的《关于…的通知》"
+    const references = [...`${notice.summary || ''}\n${notice.content || ''}`.matchAll(/《([^《》]{6,100})》/g)]
+      .map(match => this.getSubject(match[1]))
+      .filter(subject => subject.length >= 4);
+    const referenced = sorted.find(record => references.includes(this.getSubject(record.title)));
+    if (referenced) {
+      return toRelation(referenced, 'reference');
+    }
+
+    // 2. 项目名称相同（关联公告的项目名称可能带有 "延期开展" 等前缀）
+    const projectName = notice.fields?.projectName?.replace(this.RELATION_PREFIX, '');
+    if (projectName && projectName.length >= 4) {
+      const sameProject = sorted.find(record =>
+        record.projectName && (record.projectName.includes(projectName) || projectName.includes(record.projectName))
+      );
+      if (sameProject) {
+        return toRelation(sameProject, 'project');
+      }
+    }
+
+    // 3. 去掉关联用语后的标题最相似（数字须相同，避免关联到同系列的其他批次）
+    const subject = this.getSubject(notice.title);
+    const numbers = (text: string) => (text.match(/\d+/g) || []).join(',');
+    let best: { record: SentNotice; similarity: number } | undefined;
+    for (const record of sorted) {
+      const recordSubject = this.getSubject(record.title);
+      if (numbers(recordSubject) !== numbers(subject)) {
+        continue;
+      }
+
+      const similarity = this.similarity(subject, recordSubject);
+      if (similarity >= config.relation.minSimilarity && (!best || similarity > best.similarity)) {
+        best = { record, similarity };
+      }
+    }
+    return best && toRelation(best.record, 'title');
+  }
+
+  /**
+   * 标题主体：去掉发布机构前缀（"…关于"）、关联用语和 "的通知" 等结尾
+   */
+  private static getSubject(title: string): string {
+    return title
+      .replace(/^.*?关于/, '')
+      .replace(this.RELATION_SUFFIX, '')
+      .replace(this.RELATION_PREFIX, '')
+      .replace(/[\s“”"「」]/g, '');
+  }
+
+  /**
+   * 两个字符串的相似度（相邻两字的 Dice 系数）
+   */
+  private static similarity(a: string, b: string): number {
+    const bigrams = (text: string) => {
+      const chars = [...text];
+      return chars.slice(0, -1).map((char, index) => char + chars[index + 1]);
+    };
+
+    const left = bigrams(a);
+    const right = bigrams(b);
+    if (left.length === 0 || right.length === 0) {
+      return a === b ? 1 : 0;
+    }
+
+    const remaining = [...right];
+    let common = 0;
+    for (const bigram of left) {
+      const index = remaining.indexOf(bigram);
+      if (index >= 0) {
+        remaining.splice(index, 1);
+        common++;
+      }
+    }
+    return (2 * common) / (left.length + right.length);
+  }
+
+  /**
+   * 新增或更新公告记录
+   */
+  private static async update(notices: Notice[], modify: (record: SentNotice) => void): Promise<void> {
+    const records = new Map((await this.getRecords()).map(record => [record.noticeId, record]));
+    const now = new Date().toISOString();
+
+    for (const notice of notices) {
+      const record = records.get(notice.id) || {
+        noticeId: notice.id,
+        title: notice.title,
+        url: notice.url,
+        projectName: notice.fields?.projectName,
+        related: !!this.getRelationType(notice.title),
+        messages: {},
+        sentAt: now,
+      };
+      modify(record);
+      records.set(notice.id, record);
+    }
+
+    await this.saveRecords([...records.values()]);
+  }
+
+  /**
+   * 近期的公告记录（已去除超过查找天数的记录）
+   */
+  private static async getRecords(): Promise<SentNotice[]> {
+    let records = this.memory;
+    if (redisService.isReady()) {
+      records = (await redisService.getJson<SentNotice[]>(this.STORE_KEY)) || records;
+    }
+
+    const cutoff = Date.now() - config.relation.windowDays * this.DAY_MS;
+    return records.filter(record => new Date(record.sentAt).getTime() >= cutoff);
+  }
+
+  private static async saveRecords(records: SentNotice[]): Promise<void> {
+    this.memory = records;
+
+    if (redisService.isReady()) {
+      await redisService.setJson(this.STORE_KEY, records, config.relation.windowDays * 24 * 60 * 60);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import { PageState } from '../types';
+import { redisService } from './redisService';
+import { logger } from '../utils/logger';
+
+/**
+ * 列表页抓取状态存储
+ * 记录每个URL的 ETag/Last-Modified 和内容哈希，Redis 不可用时使用内存
+ */
+export class PageStateStore {
+  private static memory: Map<string, PageState> = new Map();
+
+  /**
+   * 获取URL上次的抓取状态
+   */
+  static async get(url: string): Promise<PageState | null> {
+    if (redisService.isReady()) {
+      const state = await redisService.getJson<PageState>(this.getKey(url));
+      if (state) {
+        return state;
+      }
+    }
+
+    return this.memory.get(url) || null;
+  }
+
+  /**
+   * 保存URL的抓取状态
+   */
+  static async set(state: PageState): Promise<void> {
+    this.memory.set(state.url, state);
+
+    if (redisService.isReady()) {
+      await redisService.setJson(this.getKey(state.url), state);
+    }
+
+    logger.debug(`保存页面状态: ${state.url} (${state.contentHash.slice(0, 8)})`);
+  }
+
+  /**
+   * 计算页面内容哈希
+   */
+  static hashContent(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * 生成存储 key（URL 可能很长，使用哈希）
+   */
+  private static getKey(url: string): string {
+    return `page:${crypto.createHash('sha1').update(url).digest('hex')}`;
+  }
+}
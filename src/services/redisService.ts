@@ -1,4 +1,5 @@
 import Redis from 'ioredis';
+import { NoticeOutcome } from '../types';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
 
@@ -95,7 +96,7 @@ export class RedisService {
 
     try {
       const key = `${config.redis.keyPrefix}sent:${noticeId}`;
-      await this.client!.setex(key, config.redis.ttl, '1');
+      await this.client!.setex(key, config.redis.ttl, JSON.stringify(this.pushedOutcome()));
       logger.debug(`标记公告已发送: ${noticeId}`);
     } catch (error: any) {
       logger.error('标记Redis缓存失败:', error);
@@ -103,32 +104,131 @@ export class RedisService {
   }
 
   /**
-   * 批量标记公告为已发送
+   * 批量标记公告为已发送（指定订阅者时记录在 sent:<订阅者ID>:<公告ID>）
    */
-  async markBatchAsSent(noticeIds: string[]): Promise<void> {
+  async markBatchAsSent(noticeIds: string[], subscriberId?: string): Promise<void> {
+    const value = JSON.stringify(this.pushedOutcome());
+    await this.markBatch(this.sentNamespace(subscriberId), noticeIds, () => value);
+    if (this.isReady() && noticeIds.length > 0) {
+      logger.info(`批量标记 ${noticeIds.length} 条公告为已发送`);
+    }
+  }
+
+  /**
+   * 检查批量公告发送状态
+   */
+  async checkBatchSentStatus(noticeIds: string[], subscriberId?: string): Promise<{ [id: string]: boolean }> {
+    return this.checkBatchStatus(this.sentNamespace(subscriberId), noticeIds);
+  }
+
+  /**
+   * 批量获取公告的处理结果（已发送优先，其次已处理；都没有时为 null）
+   */
+  async getBatchOutcomes(noticeIds: string[], subscriberId?: string): Promise<{ [id: string]: NoticeOutcome | null }> {
+    const outcomes: { [id: string]: NoticeOutcome | null } = {};
+    noticeIds.forEach(id => outcomes[id] = null);
+    if (!this.isReady() || noticeIds.length === 0) {
+      return outcomes;
+    }
+
+    try {
+      const keys = (namespace: string) => noticeIds.map(id => `${config.redis.keyPrefix}${namespace}:${id}`);
+      const sent = await this.client!.mget(keys(this.sentNamespace(subscriberId)));
+      const processed = await this.client!.mget(keys(this.processedNamespace(subscriberId)));
+      noticeIds.forEach((id, index) => {
+        outcomes[id] = this.parseOutcome(sent[index], true) || this.parseOutcome(processed[index], false);
+      });
+    } catch (error: any) {
+      logger.error('获取公告处理结果失败:', error);
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * 解析标记的值：JSON 处理结果；旧版标记的值为 "1" 或记录时间
+   */
+  private parseOutcome(value: string | null, pushed: boolean): NoticeOutcome | null {
+    if (!value) {
+      return null;
+    }
+    if (value.startsWith('{')) {
+      try {
+        return JSON.parse(value) as NoticeOutcome;
+      } catch (error) {
+        // 按旧版标记处理
+      }
+    }
+    return value === '1' ? { pushed } : { pushed, at: value };
+  }
+
+  private pushedOutcome(): NoticeOutcome {
+    return { pushed: true, at: new Date().toISOString() };
+  }
+
+  private sentNamespace(subscriberId?: string): string {
+    return subscriberId ? `sent:${subscriberId}` : 'sent';
+  }
+
+  /**
+   * 批量标记公告为已处理但未推送（被关键词、字段、订阅条件等过滤，不再重复补全详情），值为被过滤的阶段和原因
+   */
+  async markBatchAsProcessed(outcomes: { [noticeId: string]: NoticeOutcome }, subscriberId?: string): Promise<void> {
+    await this.markBatch(this.processedNamespace(subscriberId), Object.keys(outcomes), id => JSON.stringify(outcomes[id]));
+  }
+
+  /**
+   * 检查批量公告是否已处理但未推送
+   */
+  async checkBatchProcessedStatus(noticeIds: string[], subscriberId?: string): Promise<{ [id: string]: boolean }> {
+    return this.checkBatchStatus(this.processedNamespace(subscriberId), noticeIds);
+  }
+
+  private processedNamespace(subscriberId?: string): string {
+    return subscriberId ? `processed:${subscriberId}` : 'processed';
+  }
+
+  /**
+   * 批量标记公告为已抓取过（无论是否推送）
+   */
+  async markBatchAsSeen(noticeIds: string[]): Promise<void> {
+    await this.markBatch('seen', noticeIds);
+  }
+
+  /**
+   * 检查批量公告是否抓取过
+   */
+  async checkBatchSeenStatus(noticeIds: string[]): Promise<{ [id: string]: boolean }> {
+    return this.checkBatchStatus('seen', noticeIds);
+  }
+
+  /**
+   * 批量写入指定命名空间下的标记（未指定值时为记录时间）
+   */
+  private async markBatch(namespace: string, noticeIds: string[], getValue?: (noticeId: string) => string): Promise<void> {
     if (!this.isReady() || noticeIds.length === 0) {
       return;
     }
 
     try {
       const pipeline = this.client!.pipeline();
+      const markedAt = new Date().toISOString();
       
       noticeIds.forEach(noticeId => {
-        const key = `${config.redis.keyPrefix}sent:${noticeId}`;
-        pipeline.setex(key, config.redis.ttl, '1');
+        const key = `${config.redis.keyPrefix}${namespace}:${noticeId}`;
+        pipeline.setex(key, config.redis.ttl, getValue ? getValue(noticeId) : markedAt);
       });
 
       await pipeline.exec();
-      logger.info(`批量标记 ${noticeIds.length} 条公告为已发送`);
     } catch (error: any) {
-      logger.error('批量标记Redis缓存失败:', error);
+      logger.error(`批量标记Redis缓存失败 (${namespace}):`, error);
     }
   }
 
   /**
-   * 检查批量公告发送状态
+   * 批量检查指定命名空间下的标记
    */
-  async checkBatchSentStatus(noticeIds: string[]): Promise<{ [id: string]: boolean }> {
+  private async checkBatchStatus(namespace: string, noticeIds: string[]): Promise<{ [id: string]: boolean }> {
     if (!this.isReady() || noticeIds.length === 0) {
       // 如果Redis不可用，返回所有为false（都是新的）
       return noticeIds.reduce((acc, id) => {
@@ -141,7 +241,7 @@ export class RedisService {
       const pipeline = this.client!.pipeline();
       
       noticeIds.forEach(noticeId => {
-        const key = `${config.redis.keyPrefix}sent:${noticeId}`;
+        const key = `${config.redis.keyPrefix}${namespace}:${noticeId}`;
         pipeline.exists(key);
       });
 
@@ -155,7 +255,7 @@ export class RedisService {
 
       return status;
     } catch (error: any) {
-      logger.error('检查批量发送状态失败:', error);
+      logger.error(`检查批量状态失败 (${namespace}):`, error);
       // 出错时返回所有为false
       return noticeIds.reduce((acc, id) => {
         acc[id] = false;
@@ -164,6 +264,109 @@ export class RedisService {
     }
   }
 
+  /**
+   * 读取JSON值（key 不含前缀）
+   */
+  async getJson<T>(key: string): Promise<T | null> {
+    if (!this.isReady()) {
+      return null;
+    }
+
+    try {
+      const value = await this.client!.get(`${config.redis.keyPrefix}${key}`);
+      return value ? JSON.parse(value) as T : null;
+    } catch (error: any) {
+      logger.error(`读取Redis数据失败 (${key}):`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 写入JSON值（key 不含前缀），ttl 为空时使用默认过期时间
+   */
+  async setJson(key: string, value: unknown, ttl: number = config.redis.ttl): Promise<boolean> {
+    if (!this.isReady()) {
+      return false;
+    }
+
+    try {
+      await this.client!.setex(`${config.redis.keyPrefix}${key}`, ttl, JSON.stringify(value));
+      return true;
+    } catch (error: any) {
+      logger.error(`写入Redis数据失败 (${key}):`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 扫描匹配的 key（pattern 和返回值均不含前缀），使用 SCAN 避免阻塞
+   */
+  async scanKeys(pattern: string): Promise<string[]> {
+    if (!this.isReady()) {
+      return [];
+    }
+
+    const prefix = config.redis.keyPrefix;
+    const keys: string[] = [];
+    let cursor = '0';
+
+    try {
+      do {
+        const [next, batch] = await this.client!.scan(cursor, 'MATCH', `${prefix}${pattern}`, 'COUNT', 1000);
+        cursor = next;
+        keys.push(...batch.map(key => key.slice(prefix.length)));
+      } while (cursor !== '0');
+    } catch (error: any) {
+      logger.error(`扫描Redis key失败 (${pattern}):`, error);
+    }
+
+    return keys;
+  }
+
+  /**
+   * 将命名空间下已存在的标记复制到新ID，保留剩余过期时间（新ID已有标记时不覆盖）
+   * 返回复制的数量
+   */
+  async copyMarkers(namespace: string, mapping: { [fromId: string]: string[] }): Promise<number> {
+    const fromIds = Object.keys(mapping);
+    if (!this.isReady() || fromIds.length === 0) {
+      return 0;
+    }
+
+    try {
+      const ttlPipeline = this.client!.pipeline();
+      fromIds.forEach(fromId => ttlPipeline.pttl(`${config.redis.keyPrefix}${namespace}:${fromId}`));
+      const ttls = await ttlPipeline.exec();
+
+      const copyPipeline = this.client!.pipeline();
+      let copied = 0;
+      fromIds.forEach((fromId, index) => {
+        const ttl = ttls?.[index]?.[1] as number;
+        // -2 表示 key 不存在，-1 表示没有过期时间
+        if (ttl === -2 || ttl === 0) {
+          return;
+        }
+        for (const toId of mapping[fromId]) {
+          const key = `${config.redis.keyPrefix}${namespace}:${toId}`;
+          if (ttl > 0) {
+            copyPipeline.set(key, '1', 'PX', ttl, 'NX');
+          } else {
+            copyPipeline.set(key, '1', 'NX');
+          }
+          copied++;
+        }
+      });
+
+      if (copied > 0) {
+        await copyPipeline.exec();
+      }
+      return copied;
+    } catch (error: any) {
+      logger.error(`复制Redis标记失败 (${namespace}):`, error);
+      return 0;
+    }
+  }
+
   /**
    * 获取统计信息
    */
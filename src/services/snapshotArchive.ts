@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { ShanghaiTime } from '../utils/shanghaiTime';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// 快照类型
+export type SnapshotKind = 'list' | 'detail';
+
+// 快照索引条目
+export interface SnapshotEntry {
+  url: string;
+  kind: SnapshotKind;
+  file: string;         // 相对归档目录的文件路径
+  fetchedAt: string;    // 抓取时间（ISO字符串）
+  size: number;         // 原始内容字节数
+  hash: string;         // 原始内容 SHA-256
+}
+
+// 快照查询条件
+export interface SnapshotQuery {
+  url?: string;         // 完整URL或URL片段
+  kind?: SnapshotKind;
+  from?: string;        // 起始日期 YYYY-MM-DD（含）
+  to?: string;          // 结束日期 YYYY-MM-DD（含）
+}
+
+/**
+ * 原始HTML快照归档
+ * 按日期目录保存 gzip 压缩的页面，每个目录下的 index.jsonl 记录URL与文件的对应关系
+ */
+export class SnapshotArchive {
+  static readonly INDEX_FILE = 'index.jsonl';
+  private static readonly DATE_DIR_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+  private static lastCleanup = 0;
+
+  /**
+   * 保存页面快照，失败时只记录日志
+   */
+  static async save(url: string, html: string, kind: SnapshotKind): Promise<void> {
+    // 回放的页面本身就是快照，无需重复归档
+    if (!config.archive.enabled || config.replay.dir) {
+      return;
+    }
+
+    try {
+      const now = new Date();
+      const date = ShanghaiTime.formatDate(now);
+      const dateDir = path.join(config.archive.dir, date);
+      const urlKey = crypto.createHash('sha1').update(url).digest('hex').slice(0, 16);
+      const fileName = `${urlKey}-${now.getTime()}.html.gz`;
+      const content = Buffer.from(html, 'utf8');
+
+      await fs.promises.mkdir(dateDir, { recursive: true });
+      await fs.promises.writeFile(path.join(dateDir, fileName), await gzip(content));
+
+      const entry: SnapshotEntry = {
+        url,
+        kind,
+        file: `${date}/${fileName}`,
+        fetchedAt: now.toISOString(),
+        size: content.length,
+        hash: crypto.createHash('sha256').update(content).digest('hex'),
+      };
+      await fs.promises.appendFile(path.join(dateDir, this.INDEX_FILE), JSON.stringify(entry) + '\n');
+
+      logger.debug(`已归档页面快照: ${url} -> ${entry.file}`);
+    } catch (error: any) {
+      logger.warn(`归档页面快照失败: ${url} - ${error.message}`);
+    }
+  }
+
+  /**
+   * 按URL和日期查询快照，按抓取时间升序返回
+   */
+  static async query(query: SnapshotQuery = {}): Promise<SnapshotEntry[]> {
+    const entries: SnapshotEntry[] = [];
+
+    for (const date of await this.listDates()) {
+      if ((query.from && date < query.from) || (query.to && date > query.to)) {
+        continue;
+      }
+
+      const indexPath = path.join(config.archive.dir, date, this.INDEX_FILE);
+      if (!fs.existsSync(indexPath)) {
+        continue;
+      }
+
+      const lines = (await fs.promises.readFile(indexPath, 'utf8')).split('\n');
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+
+        try {
+          const entry: SnapshotEntry = JSON.parse(line);
+          if (query.url && !entry.url.includes(query.url)) {
+            continue;
+          }
+          if (query.kind && entry.kind !== query.kind) {
+            continue;
+          }
+          entries.push(entry);
+        } catch (error) {
+          logger.warn(`快照索引行格式错误，已跳过: ${indexPath}`);
+        }
+      }
+    }
+
+    return entries.sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt));
+  }
+
+  /**
+   * 读取快照内容
+   */
+  static async read(entry: SnapshotEntry): Promise<string> {
+    const compressed = await fs.promises.readFile(path.join(config.archive.dir, entry.file));
+    return (await gunzip(compressed)).toString('utf8');
+  }
+
+  /**
+   * 按保留天数清理过期快照（每天最多执行一次，失败只记录日志，不影响抓取任务）
+   */
+  static async cleanup(): Promise<void> {
+    if (!config.archive.enabled || Date.now() - this.lastCleanup < 24 * 60 * 60 * 1000) {
+      return;
+    }
+    this.lastCleanup = Date.now();
+
+    const cutoff = ShanghaiTime.formatDate(new Date(Date.now() - config.archive.retentionDays * 24 * 60 * 60 * 1000));
+
+    try {
+      let removed = 0;
+      for (const date of await this.listDates()) {
+        if (date < cutoff) {
+          await fs.promises.rm(path.join(config.archive.dir, date), { recursive: true, force: true });
+          removed++;
+        }
+      }
+
+      if (removed > 0) {
+        logger.info(`清理过期页面快照: ${removed} 天`);
+      }
+    } catch (error: any) {
+      logger.warn(`清理过期页面快照失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 列出归档中的日期目录（升序）
+   */
+  private static async listDates(): Promise<string[]> {
+    if (!fs.existsSync(config.archive.dir)) {
+      return [];
+    }
+
+    const names = await fs.promises.readdir(config.archive.dir);
+    return names.filter(name => this.DATE_DIR_PATTERN.test(name)).sort();
+  }
+}
@@ -0,0 +1,47 @@
+import { Notice, Subscriber } from '../types';
+import { config } from '../config/config';
+import { DataFilter } from '../filter/dataFilter';
+import { CategoryService } from './categoryService';
+
+/**
+ * 订阅服务
+ * 每个订阅者按自己的分类和过滤表达式接收公告，已发送记录按订阅者分开保存，
+ * 新增订阅者不影响其他订阅者的记录
+ */
+export class SubscriptionService {
+  // 沿用全局已发送记录的订阅者ID（从单群配置改为订阅者时，原来的群不会重复收到公告）
+  static readonly DEFAULT_ID = 'default';
+
+  /**
+   * 已启用的订阅者；为空时推送到全局配置的群
+   */
+  static getSubscribers(): Subscriber[] {
+    return config.subscribers.filter(subscriber => subscriber.enabled);
+  }
+
+  /**
+   * 订阅者在已发送记录中的ID，ID 为 default 时使用全局记录（undefined）
+   */
+  static getDedupeId(subscriber?: Subscriber): string | undefined {
+    return subscriber && subscriber.id !== this.DEFAULT_ID ? subscriber.id : undefined;
+  }
+
+  /**
+   * 一组订阅者的已发送记录ID；没有订阅者时为全局记录
+   */
+  static getDedupeIds(subscribers: Subscriber[]): Array<string | undefined> {
+    return subscribers.length > 0 ? subscribers.map(subscriber => this.getDedupeId(subscriber)) : [undefined];
+  }
+
+  /**
+   * 筛选订阅者接收的公告：分类在订阅范围内且命中过滤表达式
+   */
+  static match(subscriber: Subscriber, notices: Notice[]): Notice[] {
+    const categories = subscriber.categories || [];
+
+    return notices.filter(notice =>
+      (categories.length === 0 || categories.includes(CategoryService.getCategory(notice)))
+      && (!subscriber.query || DataFilter.matchesQuery(notice, subscriber.query))
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Notice } from '../types';
+import { TableExtractor } from '../crawler/tableExtractor';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { ShanghaiTime } from '../utils/shanghaiTime';
+
+/**
+ * 公告表格导出
+ * 按日期目录保存新推送公告中的表格：CSV 每个表格一个文件，JSON 每条公告一个文件
+ */
+export class TableExport {
+  /**
+   * 导出公告中的表格，失败时只记录日志
+   */
+  static async write(notices: Notice[]): Promise<void> {
+    const dir = this.getDir();
+    const withTables = notices.filter(notice => notice.tables && notice.tables.length > 0);
+    if (!dir || withTables.length === 0) {
+      return;
+    }
+
+    try {
+      const dateDir = path.join(dir, ShanghaiTime.formatDate());
+      await fs.promises.mkdir(dateDir, { recursive: true });
+
+      let count = 0;
+      for (const notice of withTables) {
+        const baseName = notice.id.replace(/[^\w-]/g, '_');
+        const tables = notice.tables!;
+
+        if (config.table.exportFormat === 'json') {
+          const data = { id: notice.id, title: notice.title, url: notice.url, tables };
+          await fs.promises.writeFile(path.join(dateDir, `${baseName}.json`), JSON.stringify(data, null, 2), 'utf8');
+        } else {
+          for (const [index, table] of tables.entries()) {
+            // 带 BOM，Excel 打开时按 UTF-8 识别中文
+            const file = path.join(dateDir, `${baseName}-${index + 1}.csv`);
+            await fs.promises.writeFile(file, '\uFEFF' + TableExtractor.toCsv(table) + '\r\n', 'utf8');
+          }
+        }
+        count += tables.length;
+      }
+
+      logger.info(`已导出 ${withTables.length} 条公告的 ${count} 个表格到 ${dateDir}`);
+    } catch (error: any) {
+      logger.warn(`导出公告表格失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 导出目录；回放模式写入回放输出目录下的 tables
+   */
+  private static getDir(): string | undefined {
+    if (!config.table.exportDir) {
+      return undefined;
+    }
+    return config.replay.dir
+      ? config.replay.outputDir && path.join(config.replay.outputDir, 'tables')
+      : config.table.exportDir;
+  }
+}
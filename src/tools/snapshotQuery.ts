@@ -0,0 +1,72 @@
+#!/usr/bin/env ts-node
+
+/**
+ * 页面快照查询脚本
+ * 用法: npm run snapshot -- [--url <URL或片段>] [--kind list|detail] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--out <目录>]
+ * 指定 --out 时将匹配的快照解压到该目录，便于对比页面结构变化
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SnapshotArchive, SnapshotKind, SnapshotQuery } from '../services/snapshotArchive';
+
+function parseArgs(argv: string[]): { query: SnapshotQuery; out?: string } {
+  const query: SnapshotQuery = {};
+  let out: string | undefined;
+
+  for (let i = 0; i < argv.length; i += 2) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--url':
+        query.url = value;
+        break;
+      case '--kind':
+        query.kind = value as SnapshotKind;
+        break;
+      case '--from':
+        query.from = value;
+        break;
+      case '--to':
+        query.to = value;
+        break;
+      case '--date':
+        query.from = value;
+        query.to = value;
+        break;
+      case '--out':
+        out = value;
+        break;
+      default:
+        throw new Error(`未知参数: ${argv[i]}`);
+    }
+  }
+
+  return { query, out };
+}
+
+async function main(): Promise<void> {
+  const { query, out } = parseArgs(process.argv.slice(2));
+  const entries = await SnapshotArchive.query(query);
+
+  if (entries.length === 0) {
+    console.log('没有匹配的快照');
+    return;
+  }
+
+  for (const entry of entries) {
+    console.log(`${entry.fetchedAt}  ${entry.kind.padEnd(6)}  ${entry.hash.slice(0, 12)}  ${entry.size}B  ${entry.url}`);
+
+    if (out) {
+      await fs.promises.mkdir(out, { recursive: true });
+      const target = path.join(out, path.basename(entry.file, '.gz'));
+      await fs.promises.writeFile(target, await SnapshotArchive.read(entry));
+    }
+  }
+
+  console.log(`共 ${entries.length} 个快照${out ? `，已解压到 ${out}` : ''}`);
+}
+
+main().catch(error => {
+  console.error(`查询快照失败: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+#!/usr/bin/env ts-node
+
+/**
+ * 过滤判定查询脚本
+ * 用法: npm run trace -- [--title <标题片段>] [--url <URL片段>] [--runs <最近几次>] [--file <trace.json>]
+ * 不指定标题和URL时列出最近各次运行的概况；--file 读取回放输出目录中的记录
+ */
+
+import { TraceRun } from '../types';
+import { FilterTrace, TraceQuery } from '../services/filterTrace';
+import { redisService } from '../services/redisService';
+import { ShanghaiTime } from '../utils/shanghaiTime';
+
+function parseArgs(argv: string[]): { query: TraceQuery; file?: string } {
+  const query: TraceQuery = {};
+  let file: string | undefined;
+
+  for (let i = 0; i < argv.length; i += 2) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--title':
+        query.title = value;
+        break;
+      case '--url':
+        query.url = value;
+        break;
+      case '--runs':
+        query.runs = parseInt(value);
+        break;
+      case '--file':
+        file = value;
+        break;
+      default:
+        throw new Error(`未知参数: ${argv[i]}`);
+    }
+  }
+
+  return { query, file };
+}
+
+/**
+ * 读取运行记录：指定文件时读取文件，否则等待 Redis 连接后读取
+ */
+async function loadRuns(file?: string): Promise<TraceRun[]> {
+  if (file) {
+    return FilterTrace.readFile(file);
+  }
+
+  for (let waited = 0; !redisService.isReady() && waited < 3000; waited += 100) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  if (!redisService.isReady()) {
+    throw new Error('Redis 不可用（过滤记录保存在 Redis 中，回放记录请使用 --file）');
+  }
+  return FilterTrace.getRuns();
+}
+
+async function main(): Promise<void> {
+  const { query, file } = parseArgs(process.argv.slice(2));
+  const matches = FilterTrace.search(await loadRuns(file), query);
+  const detailed = !!(query.title || query.url);
+
+  if (matches.length === 0) {
+    console.log(detailed ? '最近的运行中没有匹配的公告' : '没有过滤记录');
+    return;
+  }
+
+  for (const { run, notices } of matches) {
+    const pushed = run.notices.filter(notice => FilterTrace.summarize(notice).startsWith('已推送')).length;
+    console.log(`${ShanghaiTime.formatDateTime(run.startedAt)}  公告 ${run.notices.length} 条，推送 ${pushed} 条${run.note ? `  ${run.note}` : ''}`);
+
+    if (!detailed) {
+      continue;
+    }
+
+    for (const notice of notices) {
+      console.log(`  ${notice.title}`);
+      console.log(`    ${notice.url}`);
+      console.log(`    结果: ${FilterTrace.summarize(notice)}`);
+      for (const decision of notice.decisions) {
+        const reason = decision.reason ? ` ${decision.reason}` : '';
+        console.log(`      ${decision.passed ? '✓' : '✗'} ${FilterTrace.STAGE_LABELS[decision.stage]}${reason}`);
+      }
+    }
+  }
+}
+
+main()
+  .catch(error => {
+    console.error(`查询过滤记录失败: ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => redisService.disconnect());
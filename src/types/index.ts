@@ -4,9 +4,139 @@ export interface Notice {
   title: string;        // 公告标题
   url: string;          // 公告链接
   publishDate: string;  // 发布时间（ISO字符串）
+  dateSource: DateSource; // 发布时间来源：页面解析或推断（无法解析时使用抓取时间）
   summary?: string;     // 内容摘要
   content?: string;     // 完整内容
   category?: string;    // 公告分类
+  sourceId: string;     // 来源ID（对应数据源注册表）
+  attachments?: NoticeAttachment[]; // 附件列表
+  fields?: NoticeFields;  // 从标题和正文提取的结构化字段
+  tables?: NoticeTable[]; // 详情页中的表格（如房源清单、摇号排序结果）
+  duplicateOf?: NoticeReference; // 疑似重复：与近期推送过的该公告相似
+  relatedTo?: NoticeRelation;    // 更正、补充、延期等公告对应的原公告
+  detailFailed?: boolean;        // 详情补全失败（只有列表页数据，下次重新补全）
+}
+
+// 对另一条公告的引用
+export interface NoticeReference {
+  id: string;
+  title: string;
+  url: string;
+}
+
+// 更正、补充等公告与原公告的关联
+export interface NoticeRelation {
+  type: string;               // 关联类型，如 "更正"、"补充"、"延期"
+  original: NoticeReference;
+  matchedBy: 'reference' | 'project' | 'title'; // 依据：正文引用原公告标题、项目名称相同、标题相似
+}
+
+// 过滤流水线的阶段
+export type TraceStage =
+  | 'date'              // 时间范围
+  | 'validate'          // 数据校验
+  | 'batch-duplicate'   // 批次内重复
+  | 'sent'              // 已发送或已处理过
+  | 'keywords'          // 包含关键词
+  | 'exclude-keywords'  // 排除关键词
+  | 'query'             // 过滤表达式
+  | 'fields'            // 结构化字段
+  | 'near-duplicate'    // 近似重复
+  | 'subscriber'        // 订阅条件
+  | 'push';             // 推送
+
+// 公告在某个阶段的判定
+export interface TraceDecision {
+  stage: TraceStage;
+  passed: boolean;
+  reason?: string;      // 过滤原因（通过时为附加说明）
+}
+
+// 单条公告在一次运行中的判定记录
+export interface NoticeTrace {
+  noticeId: string;
+  title: string;
+  url: string;
+  decisions: TraceDecision[];
+}
+
+// 公告的处理结果（已发送、已处理记录的值）
+export interface NoticeOutcome {
+  pushed: boolean;      // 是否已推送
+  at?: string;          // 记录时间（旧版记录没有）
+  stage?: TraceStage;   // 未推送时被过滤的阶段
+  reason?: string;      // 未推送的原因
+}
+
+// 一次运行的过滤记录
+export interface TraceRun {
+  startedAt: string;
+  finishedAt?: string;
+  note?: string;        // 如 "列表页均未变化"、任务失败原因
+  notices: NoticeTrace[];
+}
+
+// 内容差异中的一处变化（删除的片段和新增的片段，其一可为空）
+export interface TextChange {
+  removed: string[];
+  added: string[];
+}
+
+// 已推送公告的内容更新
+export interface NoticeUpdate {
+  notice: NoticeReference;
+  changes: TextChange[];
+  sentAt: string;         // 首次推送时间
+  detectedAt: string;
+}
+
+// 详情页表格（rowspan/colspan 已展开，每行与表头等宽）
+export interface NoticeTable {
+  caption?: string;     // 表格标题（caption 或表格前的一段文字）
+  headers: string[];    // 表头（多行表头合并为 "上级/下级"）
+  rows: string[][];     // 数据行
+}
+
+// 公告结构化字段（未识别的字段为空）
+export interface NoticeFields {
+  projectName?: string;     // 项目名称，如 "XX花园项目"
+  district?: string;        // 行政区，如 "龙华区"
+  housingType?: string;     // 住房类型：人才房/安居房/保租房/公租房/共有产权房
+  stage?: string;           // 配售阶段：认购/资格审核/摇号/选房/签约
+  units?: number;           // 房源套数
+  keyDates: NoticeKeyDate[]; // 关键时间（如认购、选房时间）
+}
+
+// 公告中的关键时间
+export interface NoticeKeyDate {
+  label: string;        // 时间说明（取日期前的文字，如 "选房时间"）
+  start: string;        // 开始时间（ISO字符串）
+  end?: string;         // 结束时间（ISO字符串，时间段时存在）
+  allDay: boolean;      // 是否只有日期没有具体时间
+  deadline?: boolean;   // 是否为截止时间（如 "X月X日前"）
+}
+
+// 日历事件（由公告关键时间生成）
+export interface CalendarEvent {
+  uid: string;          // 事件唯一标识（公告ID + 时间说明 + 开始时间）
+  noticeId: string;     // 对应公告ID
+  title: string;        // 事件标题
+  start: string;        // 开始时间（ISO字符串）
+  end?: string;         // 结束时间（ISO字符串）
+  allDay: boolean;      // 全天事件
+  url: string;          // 公告链接
+  description: string;  // 事件说明（公告标题）
+  createdAt: string;    // 首次记录时间
+}
+
+// 发布时间来源
+export type DateSource = 'parsed' | 'inferred';
+
+// 公告附件
+export interface NoticeAttachment {
+  name: string;         // 文件名（链接文字或URL中的文件名）
+  extension: string;    // 扩展名（小写，不含点，如 pdf、xlsx）
+  url: string;          // 附件绝对URL
 }
 
 // 过滤结果
@@ -22,12 +152,34 @@ export interface PushResult {
   success: boolean;
   message: string;
   timestamp: string;
+  messageId?: string;   // Bot API 推送时的消息ID
+  noticeIds?: string[]; // 消息中的公告ID（按分类分别推送时，用于区分推送成功的公告）
+}
+
+// 推送模式：单条消息、分类汇总为一条消息、每个分类一条消息
+export type PushMode = 'single' | 'categorized' | 'by-category';
+
+// 推送目标：群聊、用户（Bot API）或群机器人 Webhook
+export type SubscriberTarget =
+  | { type: 'chat_id' | 'open_id'; id: string }
+  | { type: 'webhook'; url: string; secret?: string };
+
+// 订阅者：各自的推送目标、过滤条件和推送模式，已发送记录分开保存
+export interface Subscriber {
+  id: string;               // 订阅者ID（已发送记录按ID区分，修改后会重新推送）
+  name: string;
+  enabled: boolean;
+  target: SubscriberTarget;
+  query?: string;           // 过滤表达式（语法同 FILTER_QUERY），留空接收全部
+  categories?: string[];    // 只接收这些分类的公告，留空接收全部
+  pushMode?: PushMode;      // 留空时使用全局推送模式
 }
 
 // 缓存项
 export interface CacheItem {
   id: string;
   timestamp: number;
+  value?: string;       // 附带的值（如公告处理结果）
 }
 
 // 爬虫错误类型
@@ -66,6 +218,14 @@ export interface CategoryRule {
   name: string;         // 分类名称
   keywords: string[];   // 关键词列表
   priority: number;     // 优先级（数字越小优先级越高）
+  fields?: CategoryFieldMatch; // 按结构化字段匹配（任一字段命中即归入该分类）
+}
+
+// 分类规则的结构化字段条件
+export interface CategoryFieldMatch {
+  housingType?: string[];
+  stage?: string[];
+  district?: string[];
 }
 
 // 分类结果
@@ -82,4 +242,93 @@ export interface RedisConfig {
   db: number;
   keyPrefix: string;    // Redis key 前缀
   ttl: number;          // 缓存过期时间（秒）
-} 
\ No newline at end of file
+} 
+
+// 列表页抓取状态（用于条件请求和内容比对）
+export interface PageState {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  contentHash: string;  // 页面内容 SHA-256
+  updatedAt: string;    // 记录时间（ISO字符串）
+}
+
+// 字段提取规则
+export interface FieldRule {
+  selector?: string;    // 选择器（相对列表项），省略时使用列表项本身
+  attr?: string;        // 读取的属性，省略时读取文本
+  regex?: string;       // 正则提取，有捕获组时取第一个捕获组
+  last?: boolean;       // 取最后一个匹配元素（默认取第一个）
+}
+
+// 字段提取配置：字符串为选择器简写，数组为按顺序尝试的回退规则
+export type FieldSpec = string | FieldRule | Array<string | FieldRule>;
+
+// 数据源提取规则
+export interface ExtractionSpec {
+  listItem: string | string[];  // 列表项选择器，按顺序尝试，取第一个有结果的
+  title: FieldSpec;             // 标题（相对列表项）
+  link: FieldSpec;              // 详情链接（相对列表项）
+  date: FieldSpec;              // 发布日期（相对列表项）
+  content: string | string[];   // 详情页正文选择器，按顺序尝试
+}
+
+// 数据源分页规则
+export interface SourcePagination {
+  urlPattern: string;   // 分页URL模板，{page} 为页码占位符
+  pageOffset?: number;  // 页码偏移（部分站点第2页为 index_1.html）
+}
+
+// 数据源类型：HTML 列表页、RSS/Atom 订阅、JSON 列表接口
+export type SourceType = 'html' | 'rss' | 'json';
+
+// 订阅/接口条目到公告字段的映射
+export interface SourceFieldMapping {
+  itemsPath?: string;       // JSON 列表所在路径（点分隔，如 data.list），省略时响应本身为列表
+  title?: string;           // 标题字段（JSON 为字段路径，RSS/Atom 为标签名）
+  link?: string;            // 链接字段
+  linkTemplate?: string;    // 链接模板，{字段路径} 为占位符（接口只返回ID时使用）
+  date?: string;            // 发布日期字段
+  summary?: string;         // 摘要字段
+}
+
+// 数据源配置
+export interface SourceConfig {
+  id: string;                   // 来源唯一标识
+  name: string;                 // 来源名称
+  enabled: boolean;             // 是否启用
+  type?: SourceType;            // 数据源类型，默认 html
+  listUrl: string;              // 列表首页URL（RSS/JSON 为订阅或接口地址）
+  pagination?: SourcePagination;
+  mapping?: SourceFieldMapping; // RSS/JSON 字段映射
+  defaultCategory?: string;     // 未匹配分类规则时使用的默认分类
+  proxy?: string;               // 覆盖全局代理，direct 表示直连
+  fingerprint?: ('title' | 'publishDate')[]; // 计入公告ID的内容字段（同一URL会发布不同公告时使用）
+}
+
+// 列表页解析统计
+export interface ParseStats {
+  listItems: number;        // 匹配到的列表项数量
+  notices: number;          // 成功解析的公告数量
+  parsedDates: number;      // 从页面解析出日期的公告数量
+  fallbackDates: number;    // 日期未由首选规则解析（回退规则或当前时间）的公告数量
+}
+
+// 解析漂移报告
+export interface DriftReport {
+  sourceId: string;
+  sourceName: string;
+  url: string;
+  stats: ParseStats;
+  parsedDateRatio: number;
+  fallbackDateRatio: number;
+  baseline: {
+    samples: number;            // 基线样本数
+    minNotices: number;
+    maxNotices: number;
+    parsedDateRatio: number;    // 基线平均值
+    fallbackDateRatio: number;  // 基线平均值
+  } | null;
+  reasons: string[];            // 判定为漂移的原因
+  detectedAt: string;
+}
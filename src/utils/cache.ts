@@ -25,9 +25,16 @@ export class MemoryCache {
   }
 
   /**
-   * 添加 ID 到缓存
+   * 获取缓存项（含加入时间和附带的值）
    */
-  add(id: string): void {
+  get(id: string): CacheItem | undefined {
+    return this.cache.get(id);
+  }
+
+  /**
+   * 添加 ID 到缓存，可附带值
+   */
+  add(id: string, value?: string): void {
     // 如果缓存已满，删除最旧的项
     if (this.cache.size >= this.maxSize) {
       this.removeOldest();
@@ -36,6 +43,7 @@ export class MemoryCache {
     this.cache.set(id, {
       id,
       timestamp: Date.now(),
+      value,
     });
 
     logger.debug(`缓存添加: ${id}，当前缓存大小: ${this.cache.size}`);
@@ -147,4 +155,7 @@ export class MemoryCache {
 }
 
 // 导出单例实例
-export const cache = new MemoryCache(); 
\ No newline at end of file
+export const cache = new MemoryCache();
+
+// 已抓取公告缓存（用于增量翻页判断，与已发送记录分开）
+export const seenCache = new MemoryCache(); 
\ No newline at end of file
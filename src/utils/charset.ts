@@ -0,0 +1,113 @@
+import { logger } from './logger';
+
+/**
+ * 字符编码检测与解码
+ * 合法的 UTF-8 内容直接按 UTF-8 解码（GBK 中文几乎不可能恰好是合法 UTF-8，可避免站点错误声明编码），
+ * 否则按 Content-Type 头、meta 标签（或 XML 声明）中的编码解码，均未声明时按 GB18030 解码
+ */
+export class Charset {
+  // meta 标签通常位于页面开头
+  private static readonly META_SCAN_BYTES = 4096;
+
+  // GB2312/GBK 均为 GB18030 的子集，统一按 GB18030 解码
+  private static readonly ALIASES: { [label: string]: string } = {
+    'gb2312': 'gb18030',
+    'gbk': 'gb18030',
+    'x-gbk': 'gb18030',
+    'cp936': 'gb18030',
+    'utf8': 'utf-8',
+  };
+
+  /**
+   * 将响应内容解码为字符串
+   */
+  static decode(buffer: Buffer, contentType?: string): string {
+    const encoding = this.detect(buffer, contentType);
+    const bom = this.detectBom(buffer);
+    const body = bom ? buffer.subarray(bom.length) : buffer;
+    return new TextDecoder(encoding).decode(body);
+  }
+
+  /**
+   * 检测内容编码
+   */
+  static detect(buffer: Buffer, contentType?: string): string {
+    const bom = this.detectBom(buffer);
+    if (bom) {
+      return bom.encoding;
+    }
+
+    if (this.isValidUtf8(buffer)) {
+      return 'utf-8';
+    }
+
+    const declared = this.normalize(this.fromContentType(contentType)) || this.normalize(this.fromMeta(buffer));
+    if (declared && declared !== 'utf-8') {
+      return declared;
+    }
+
+    if (declared) {
+      logger.debug('声明编码为 UTF-8 但内容不是合法 UTF-8，按 GB18030 解码');
+    }
+    return 'gb18030';
+  }
+
+  /**
+   * 从 Content-Type 头提取 charset
+   */
+  private static fromContentType(contentType?: string): string | null {
+    const match = contentType?.match(/charset\s*=\s*["']?([\w-]+)/i);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * 从 meta 标签或 XML 声明提取编码
+   */
+  private static fromMeta(buffer: Buffer): string | null {
+    const head = buffer.subarray(0, this.META_SCAN_BYTES).toString('latin1');
+    const match = head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)
+      || head.match(/<\?xml[^>]+encoding\s*=\s*["']([\w-]+)/i);
+    return match ? match[1] : null;
+  }
+
+  /**
+   * 规范化编码名称，不支持的编码返回 null
+   */
+  private static normalize(label: string | null): string | null {
+    if (!label) {
+      return null;
+    }
+
+    const lower = label.toLowerCase();
+    const encoding = this.ALIASES[lower] || lower;
+    try {
+      new TextDecoder(encoding);
+      return encoding;
+    } catch (error) {
+      logger.debug(`不支持的字符编码: ${label}`);
+      return null;
+    }
+  }
+
+  private static detectBom(buffer: Buffer): { encoding: string; length: number } | null {
+    if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+      return { encoding: 'utf-8', length: 3 };
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+      return { encoding: 'utf-16le', length: 2 };
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+      return { encoding: 'utf-16be', length: 2 };
+    }
+    return null;
+  }
+
+  private static isValidUtf8(buffer: Buffer): boolean {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
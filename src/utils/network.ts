@@ -0,0 +1,133 @@
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import * as fs from 'fs';
+import { HttpProxyAgent } from 'http-proxy-agent';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import { config } from '../config/config';
+import { logger } from './logger';
+
+// 代理配置中表示“直连”的取值
+export const DIRECT_PROXY = 'direct';
+
+// axios 出站连接配置
+export interface OutboundAgents {
+  httpAgent: http.Agent;
+  httpsAgent: https.Agent | http.Agent;
+  proxy: false;           // 由 agent 负责代理，关闭 axios 自带的环境变量代理
+}
+
+/**
+ * 出站网络配置
+ * 根据代理、no-proxy 列表、CA 证书和 TLS 选项创建并复用 HTTP(S) agent
+ */
+export class NetworkAgents {
+  private static agents: Map<string, OutboundAgents> = new Map();
+  private static ca: Array<string | Buffer> | undefined | null = null;
+
+  /**
+   * 获取爬虫请求的 agent（数据源可覆盖代理，direct 表示直连）
+   */
+  static forUrl(url: string, proxyOverride?: string): OutboundAgents {
+    const proxy = this.resolveProxy(url, proxyOverride ?? config.network.proxy);
+    return this.getAgents(proxy);
+  }
+
+  /**
+   * 获取飞书接口请求的 agent（未单独配置时与爬虫使用同一代理）
+   */
+  static forFeishu(url: string = 'https://open.feishu.cn'): OutboundAgents {
+    const proxy = this.resolveProxy(url, config.network.feishuProxy ?? config.network.proxy);
+    return this.getAgents(proxy);
+  }
+
+  /**
+   * 根据 no-proxy 列表决定实际使用的代理
+   */
+  private static resolveProxy(url: string, proxy?: string): string | undefined {
+    if (!proxy || proxy === DIRECT_PROXY) {
+      return undefined;
+    }
+
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch (error) {
+      return proxy;
+    }
+
+    const bypass = config.network.noProxy.some(entry => {
+      const pattern = entry.toLowerCase().replace(/^\*/, '');
+      if (pattern === '') {
+        return true; // "*" 表示全部直连
+      }
+      if (pattern.startsWith('.')) {
+        return hostname.endsWith(pattern) || hostname === pattern.slice(1);
+      }
+      return hostname === pattern || hostname.endsWith(`.${pattern}`);
+    });
+
+    return bypass ? undefined : proxy;
+  }
+
+  /**
+   * 创建（或复用）指定代理的 agent
+   */
+  private static getAgents(proxy?: string): OutboundAgents {
+    const key = proxy || DIRECT_PROXY;
+    const cached = this.agents.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const tlsOptions: https.AgentOptions = {
+      keepAlive: true,
+      ca: this.loadCa(),
+      rejectUnauthorized: config.network.rejectUnauthorized,
+      minVersion: config.network.minTlsVersion as https.AgentOptions['minVersion'],
+      localAddress: config.network.localAddress,
+    };
+
+    let agents: OutboundAgents;
+    if (!proxy) {
+      agents = {
+        httpAgent: new http.Agent({ keepAlive: true, localAddress: config.network.localAddress }),
+        httpsAgent: new https.Agent(tlsOptions),
+        proxy: false,
+      };
+    } else if (proxy.startsWith('socks')) {
+      const socksAgent = new SocksProxyAgent(proxy, tlsOptions);
+      agents = { httpAgent: socksAgent, httpsAgent: socksAgent, proxy: false };
+    } else {
+      agents = {
+        httpAgent: new HttpProxyAgent(proxy, tlsOptions),
+        httpsAgent: new HttpsProxyAgent(proxy, tlsOptions),
+        proxy: false,
+      };
+    }
+
+    logger.debug(`创建出站连接 agent: ${proxy ? this.maskProxy(proxy) : '直连'}`);
+    this.agents.set(key, agents);
+    return agents;
+  }
+
+  /**
+   * 读取自定义 CA 证书（只读取一次），与 Node 内置的根证书一起信任
+   */
+  private static loadCa(): Array<string | Buffer> | undefined {
+    if (this.ca === null) {
+      this.ca = config.network.caCertPath
+        ? [...tls.rootCertificates, fs.readFileSync(config.network.caCertPath)]
+        : undefined;
+    }
+    return this.ca;
+  }
+
+  /**
+   * 隐藏代理地址中的认证信息
+   */
+  static maskProxy(proxy: string): string {
+    return proxy.replace(/\/\/[^@/]+@/, '//***@');
+  }
+}
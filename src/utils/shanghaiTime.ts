@@ -0,0 +1,65 @@
+/**
+ * 北京时间（Asia/Shanghai，UTC+8，无夏令时）日期工具
+ * 页面上的日期均为北京时间，解析和展示都按北京时间处理，不依赖容器时区
+ */
+export class ShanghaiTime {
+  static readonly TIME_ZONE = 'Asia/Shanghai';
+  private static readonly OFFSET_MS = 8 * 60 * 60 * 1000;
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+  /**
+   * 由北京时间的年月日时分构造 ISO 字符串，日期不存在（如 2月30日）时返回 null
+   */
+  static fromParts(
+    year: number,
+    month: number,
+    day: number,
+    hour = 0,
+    minute = 0,
+    second = 0
+  ): string | null {
+    const utc = Date.UTC(year, month - 1, day, hour, minute, second);
+    const shifted = new Date(utc);
+
+    if (
+      isNaN(utc) ||
+      shifted.getUTCFullYear() !== year ||
+      shifted.getUTCMonth() !== month - 1 ||
+      shifted.getUTCDate() !== day ||
+      hour > 23 || minute > 59 || second > 59
+    ) {
+      return null;
+    }
+
+    return new Date(utc - this.OFFSET_MS).toISOString();
+  }
+
+  /**
+   * 北京时间的日期 YYYY-MM-DD
+   */
+  static formatDate(value: string | Date = new Date()): string {
+    return this.shift(value).toISOString().slice(0, 10);
+  }
+
+  /**
+   * 北京时间的日期和时间 YYYY-MM-DD HH:mm
+   */
+  static formatDateTime(value: string | Date = new Date()): string {
+    return this.shift(value).toISOString().slice(0, 16).replace('T', ' ');
+  }
+
+  /**
+   * 北京时间当天零点
+   */
+  static startOfDay(value: string | Date = new Date()): Date {
+    const shifted = this.shift(value).getTime();
+    return new Date(shifted - (shifted % this.DAY_MS) - this.OFFSET_MS);
+  }
+
+  /**
+   * 将时间平移到北京时间，之后用 UTC 方法读取各字段
+   */
+  private static shift(value: string | Date): Date {
+    return new Date(new Date(value).getTime() + this.OFFSET_MS);
+  }
+}
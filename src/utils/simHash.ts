@@ -0,0 +1,72 @@
+/**
+ * 64 位 SimHash 文本指纹
+ * 以相邻两字（bigram）为特征，数字整体作为高权重特征，
+ * 使 "第3批" 与 "第4批" 这类只差编号的公告指纹相差较远
+ */
+export class SimHash {
+  static readonly BITS = 64;
+
+  // 数字特征的权重（相对于普通 bigram）
+  private static readonly NUMBER_WEIGHT = 8;
+
+  private static readonly FNV_OFFSET = 0xcbf29ce484222325n;
+  private static readonly FNV_PRIME = 0x100000001b3n;
+  private static readonly MASK = (1n << 64n) - 1n;
+
+  /**
+   * 计算文本指纹（16 位十六进制）
+   */
+  static compute(text: string): string {
+    const weights = new Array<number>(this.BITS).fill(0);
+    const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+    const chars = [...normalized];
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = this.fnv1a(feature);
+      for (let bit = 0; bit < this.BITS; bit++) {
+        weights[bit] += (hash >> BigInt(bit)) & 1n ? weight : -weight;
+      }
+    };
+
+    for (let index = 0; index < chars.length - 1; index++) {
+      addFeature(chars[index] + chars[index + 1], 1);
+    }
+    if (chars.length === 1) {
+      addFeature(chars[0], 1);
+    }
+    for (const number of normalized.match(/\d+/g) || []) {
+      addFeature(`#${number}`, this.NUMBER_WEIGHT);
+    }
+
+    let fingerprint = 0n;
+    weights.forEach((weight, bit) => {
+      if (weight > 0) {
+        fingerprint |= 1n << BigInt(bit);
+      }
+    });
+
+    return fingerprint.toString(16).padStart(16, '0');
+  }
+
+  /**
+   * 两个指纹不同的位数（汉明距离）
+   */
+  static distance(a: string, b: string): number {
+    let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let count = 0;
+    while (diff > 0n) {
+      diff &= diff - 1n;
+      count++;
+    }
+    return count;
+  }
+
+  private static fnv1a(text: string): bigint {
+    let hash = this.FNV_OFFSET;
+    for (const byte of Buffer.from(text, 'utf8')) {
+      hash ^= BigInt(byte);
+      hash = (hash * this.FNV_PRIME) & this.MASK;
+    }
+    return hash;
+  }
+}
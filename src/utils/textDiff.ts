@@ -0,0 +1,99 @@
+import { TextChange } from '../types';
+
+/**
+ * 文本差异
+ * 将文本按行和句子（。；！？）切分为片段，以最长公共子序列比较，
+ * 连续删除、新增的片段合并为一处变化
+ */
+export class TextDiff {
+  // 片段数乘积超过该值时不再逐片段比较，中间部分整体作为一处变化
+  private static readonly MAX_CELLS = 4_000_000;
+
+  /**
+   * 切分为比较用的片段（去除空白差异）
+   */
+  static split(text: string): string[] {
+    return text
+      .split(/\n+/)
+      .flatMap(line => line.split(/(?<=[。；！？])/))
+      .map(segment => segment.replace(/\s+/g, ' ').trim())
+      .filter(segment => segment.length > 0);
+  }
+
+  /**
+   * 比较新旧文本，返回各处变化（无变化时为空数组）
+   */
+  static compare(oldText: string, newText: string): TextChange[] {
+    const before = this.split(oldText);
+    const after = this.split(newText);
+
+    // 先去掉相同的开头和结尾，缩小比较范围
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < before.length - start &&
+      end < after.length - start &&
+      before[before.length - 1 - end] === after[after.length - 1 - end]
+    ) {
+      end++;
+    }
+
+    const removed = before.slice(start, before.length - end);
+    const added = after.slice(start, after.length - end);
+    if (removed.length === 0 && added.length === 0) {
+      return [];
+    }
+    if (removed.length === 0 || added.length === 0 || removed.length * added.length > this.MAX_CELLS) {
+      return [{ removed, added }];
+    }
+
+    return this.diff(removed, added);
+  }
+
+  /**
+   * 最长公共子序列比较，相邻的删除和新增合并为一处
+   */
+  private static diff(before: string[], after: string[]): TextChange[] {
+    const rows = before.length + 1;
+    const columns = after.length + 1;
+    // lengths[i * columns + j]：before[i..] 与 after[j..] 的公共子序列长度
+    const lengths = new Uint32Array(rows * columns);
+    for (let i = before.length - 1; i >= 0; i--) {
+      for (let j = after.length - 1; j >= 0; j--) {
+        lengths[i * columns + j] = before[i] === after[j]
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+      }
+    }
+
+    const changes: TextChange[] = [];
+    let current: TextChange | null = null;
+    let i = 0;
+    let j = 0;
+
+    while (i < before.length || j < after.length) {
+      if (i < before.length && j < after.length && before[i] === after[j]) {
+        current = null;
+        i++;
+        j++;
+        continue;
+      }
+
+      if (!current) {
+        current = { removed: [], added: [] };
+        changes.push(current);
+      }
+
+      if (j >= after.length || (i < before.length && lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])) {
+        current.removed.push(before[i++]);
+      } else {
+        current.added.push(after[j++]);
+      }
+    }
+
+    return changes;
+  }
+}